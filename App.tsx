@@ -1,9 +1,49 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { analyzeArtifact, generateImage, generateSpeech } from './services/geminiService';
-import { AppStatus, ReconstructionData } from './types';
-import ComparisonSlider from './components/ComparisonSlider';
+import React, { useState, useRef, useEffect, Suspense, lazy } from 'react';
+import { getProvider } from './services/aiProvider';
+import { AnalysisDraft, AppStatus, ArtifactView, CaseRecord, GeneratedAsset, NarrativeAudience, ReconstructionData, ShardAssembly } from './types';
+import { MODE_LABELS } from './constants';
+import { saveCase } from './services/caseLibrary';
+import { acceptHypothesis, applyVariant, hasVoted, renderVariant, voteForHypothesis } from './services/hypotheses';
+import { SIMILARITY_THRESHOLD, withConsistencyCheck } from './services/consistencyCheck';
+import { pushVersion, renderRegionEdit, selectVersion, versionsOf } from './services/regionEdit';
+import { appendChatMessage, applyRefinement, askAboutArtifact, markRendered } from './services/artifactChat';
+import { DEFAULT_LANGUAGE, DEFAULT_VOICE } from './services/narration';
+import { SOURCE_KIND_LABELS } from './services/citations';
+import { CONSISTENCY_RUN_OPTIONS, overallConfidence } from './services/confidence';
+import { composeNarrative, narrativeFor, withNarrative } from './services/narratives';
+import { addHotspot, annotateTimeline, editIdentification, moveHotspot, recordAcceptance, recordChange, reviewOf, setReviewStatus, sourceOf, toggleHotspotRejected } from './services/curatorReview';
+import { AnalysisValidationError } from './services/analysisValidator';
+import { filesToViews } from './services/imageFiles';
+import { RegenerateOptions, applyAssetResult, generateAsset, runReconstruction } from './services/reconstructionPipeline';
+import { buildConditionReport } from './services/reportBuilder';
+import { downloadFile, slugify } from './services/download';
+import { composeAssembly } from './services/shardAssembly';
+import ReconstructionViewer from './components/ReconstructionViewer';
 import HotspotLayer from './components/HotspotLayer';
+import DamageLayer from './components/DamageLayer';
+import CameraCapture from './components/CameraCapture';
+import ViewSetEditor from './components/ViewSetEditor';
+import BatchPanel from './components/BatchPanel';
+import CaseLibrary from './components/CaseLibrary';
+import ReferenceCatalogue from './components/ReferenceCatalogue';
+import ReferenceMatches from './components/ReferenceMatches';
+import ExportMenu from './components/ExportMenu';
+import StreamingAnalysis from './components/StreamingAnalysis';
+import GenerationProgress from './components/GenerationProgress';
+import AssetStudio from './components/AssetStudio';
+import HypothesisGallery from './components/HypothesisGallery';
+import ReviewPanel from './components/ReviewPanel';
+import ArtifactChat from './components/ArtifactChat';
+import RegionEditor from './components/RegionEditor';
+import NarrationPlayer from './components/NarrationPlayer';
+import CitationMarks from './components/CitationMarks';
+import ConfidenceBreakdown from './components/ConfidenceBreakdown';
+import AudienceNarratives from './components/AudienceNarratives';
+
+// three.js is heavy; only pull it in once someone opens a 3D view.
+const Relief3DViewer = lazy(() => import('./components/Relief3DViewer'));
+const ReassemblyWorkspace = lazy(() => import('./components/ReassemblyWorkspace'));
 
 declare global {
   interface AIStudio {
@@ -31,41 +71,45 @@ const App: React.FC = () => {
      NEW STATE & REFS
   ------------------------------------------------------------- */
   const [artifactMode, setArtifactMode] = useState<'old' | 'new'>('old');
+  const [consistencyRuns, setConsistencyRuns] = useState(1);
   const [showWarningModal, setShowWarningModal] = useState(false);
-  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingViews, setPendingViews] = useState<ArtifactView[] | null>(null);
+  const [pendingAssembly, setPendingAssembly] = useState<ShardAssembly | undefined>(undefined);
+  const [stagedViews, setStagedViews] = useState<ArtifactView[]>([]);
+  const [shardImages, setShardImages] = useState<string[]>([]);
 
   /* -------------------------------------------------------------
      EXISTING STATE
   ------------------------------------------------------------- */
-  const [status, setStatus] = useState<AppStatus>('complete');
+  const [status, setStatus] = useState<AppStatus>('idle');
   const [hasKey, setHasKey] = useState<boolean>(true);
-  const [data, setData] = useState<ReconstructionData>({
-    analysis: {
-      identification: { civilization: 'Debug', type: 'Test', era: 'Now', region: 'Local', material: 'Bits', exactYearRange: '2024' },
-      pastReconstruction: { description: 'Debug Mode', visualPrompt: '', hotspots: [] },
-      modernRestoration: { description: '', visualPrompt: '' },
-      timeline: [],
-      confidenceScore: 100,
-      confidenceExplanation: 'Debug',
-      assumptions: '',
-      curatorNarrative: 'Debug',
-      damageAnalysis: { description: '', missingSections: '' },
-      sources: []
-    },
-    pastImage: 'https://placehold.co/600x600/121212/FFF.png?text=Reconstruction',
-    presentImage: null,
-    originalImage: 'https://placehold.co/600x600/343434/FFF.png?text=Original',
-  });
+  const [data, setData] = useState<ReconstructionData>({ analysis: null, pastImage: null, presentImage: null, originalImage: null });
+  const [draft, setDraft] = useState<AnalysisDraft | null>(null);
+  const [regenerating, setRegenerating] = useState<GeneratedAsset | null>(null);
+  const [retryingVariant, setRetryingVariant] = useState<number | null>(null);
+  const [chatPending, setChatPending] = useState(false);
+  const [regionBusy, setRegionBusy] = useState(false);
+  const [narrativePending, setNarrativePending] = useState<NarrativeAudience | null>(null);
   const [artifactContext, setArtifactContext] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [validationIssues, setValidationIssues] = useState<string[]>([]);
+  const [showPlayer, setShowPlayer] = useState(false);
+  const [panel, setPanel] = useState<'scan' | 'library' | 'batch' | 'catalogue'>('scan');
+  const [activeCaseId, setActiveCaseId] = useState<string | null>(null);
+  const [showDamageMap, setShowDamageMap] = useState(false);
+  const [show3D, setShow3D] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
+  const [editingRegion, setEditingRegion] = useState(false);
+  const [reviewer, setReviewer] = useState('');
+  // Anonymous reviewers are told apart per browser session so they still get only one vote.
+  const sessionVoter = useRef(`session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`);
+  const [showCamera, setShowCamera] = useState(false);
+  const [activeView, setActiveView] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-
   useEffect(() => {
     const checkKey = async () => {
+      if (!getProvider().requiresApiKey) return;
       if (window.aistudio) {
         const selected = await window.aistudio.hasSelectedApiKey();
         setHasKey(selected);
@@ -81,101 +125,263 @@ const App: React.FC = () => {
     }
   };
 
-  const decodeBase64 = (base64: string) => {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-    return bytes;
-  };
-
-  const decodeAudioData = async (data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> => {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-    return buffer;
-  };
-
-  const processFile = async (file: File) => {
+  const processViews = async (views: ArtifactView[], assembly?: ShardAssembly) => {
     if (!hasKey) {
       await handleOpenKeySelector();
       return;
     }
 
     setStatus('analyzing');
+    setDraft(null);
     setError(null);
+    setValidationIssues([]);
+    setActiveCaseId(null);
+    setActiveView(0);
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64 = e.target?.result as string;
-      setData(prev => ({ ...prev, originalImage: base64 }));
+    try {
+      const completed = await runReconstruction(views, artifactContext, artifactMode, (stage, partial) => {
+        setData(partial);
+        setStatus(stage);
+      }, setDraft, consistencyRuns);
+      if (assembly) completed.assembly = assembly;
+      setData(completed);
+      setStatus('complete');
 
       try {
-        const analysisResult = await analyzeArtifact(base64, artifactContext);
-        setData(prev => ({ ...prev, analysis: analysisResult }));
-
-        setStatus('generating');
-        const [past, present, audioBase64] = await Promise.all([
-          generateImage(analysisResult.pastReconstruction.visualPrompt),
-          generateImage(analysisResult.modernRestoration.visualPrompt),
-          generateSpeech(analysisResult.curatorNarrative)
-        ]);
-
-        setData(prev => ({
-          ...prev,
-          pastImage: past,
-          presentImage: present,
-          audioBlob: audioBase64
-        }));
-        setStatus('complete');
-      } catch (err: any) {
-        console.error(err);
-        const msg = (err.message || '').toLowerCase();
-        if (msg.includes('permission') || msg.includes('403') || msg.includes('not found')) {
-          setError("API Access Refused. Please select a valid paid key.");
-          setHasKey(false);
-        } else if (msg.includes('500') || msg.includes('internal')) {
-          setError("The AI model encountered a temporary hiccup. Please try again.");
-        } else {
-          setError(err.message || 'Forensic analysis failed. The image might be too blurry or complex.');
-        }
-        setStatus('error');
+        const record = await saveCase(completed, artifactContext);
+        setActiveCaseId(record.id);
+      } catch (archiveErr) {
+        console.error('Case library save failed', archiveErr);
       }
-    };
-    reader.readAsDataURL(file);
+    } catch (err: any) {
+      console.error(err);
+      const msg = (err.message || '').toLowerCase();
+      if (err instanceof AnalysisValidationError) {
+        setError("The model returned an analysis that failed schema validation, even after a repair attempt.");
+        setValidationIssues(err.issues);
+      } else if (msg.includes('permission') || msg.includes('403') || msg.includes('not found')) {
+        setError("API Access Refused. Please select a valid paid key.");
+        setHasKey(false);
+      } else if (msg.includes('500') || msg.includes('internal')) {
+        setError("The AI model encountered a temporary hiccup. Please try again.");
+      } else {
+        setError(err.message || 'Forensic analysis failed. The image might be too blurry or complex.');
+      }
+      setStatus('error');
+    }
+  };
+
+  // Post-scan edits replace the record and re-archive it under the same case id.
+  const commitData = async (next: ReconstructionData) => {
+    setData(next);
+    try {
+      const record = await saveCase(next, artifactContext, activeCaseId ?? undefined);
+      setActiveCaseId(record.id);
+    } catch (archiveErr) {
+      console.error('Case library save failed', archiveErr);
+    }
+  };
+
+  // Edits are locked while anything is still rendering, so the record being updated is never stale.
+  const voter = reviewer.trim().toLowerCase() || sessionVoter.current;
+  const editsLocked = status === 'generating' || regenerating !== null || retryingVariant !== null || chatPending || regionBusy || narrativePending !== null;
+
+  // `finish` lets callers fold their own bookkeeping into the same archived update.
+  const regenerateAsset = async (asset: GeneratedAsset, options: RegenerateOptions, finish: (next: ReconstructionData) => ReconstructionData = next => next) => {
+    if (!data.analysis || editsLocked) return;
+    setRegenerating(asset);
+    // A narration regenerated from the asset list keeps the voice, language and audience it was made with.
+    const audience = options.audience ?? data.narration?.audience ?? 'tour';
+    const assetOptions = asset === 'audioBlob'
+      ? { voice: data.narration?.voice, language: data.narration?.language, audience, script: narrativeFor(data, audience), ...options }
+      : options;
+    const result = await generateAsset(asset, data.analysis, data.analysis.mode ?? artifactMode, assetOptions, data.originalImage);
+    setRegenerating(null);
+    const next = applyAssetResult(data, result);
+    // An edited prompt is a curator change to the analysis; a new seed alone is not.
+    const promptPath = asset === 'pastImage' ? 'analysis.pastReconstruction.visualPrompt' : 'analysis.modernRestoration.visualPrompt';
+    await commitData(finish(options.prompt ? recordChange(data, next, promptPath, reviewer.trim()) : next));
+  };
+
+  const retryVariant = async (index: number) => {
+    const hypothesis = data.analysis?.alternatives?.[index];
+    if (!hypothesis || editsLocked) return;
+    setRetryingVariant(index);
+    const variant = await renderVariant(hypothesis, data.analysis!.mode ?? artifactMode, data.variants?.[index]?.votes ?? 0, data.originalImage);
+    setRetryingVariant(null);
+    await commitData(applyVariant(data, index, variant));
+  };
+
+  // Curator edits apply to the current record and are archived straight away, like regenerations.
+  const curate = (edit: (current: ReconstructionData) => ReconstructionData) => {
+    if (!data.analysis || editsLocked) return;
+    const next = edit(data);
+    if (next !== data) commitData(next);
+  };
+
+  const addCuratorHotspot = (x: number, y: number) => {
+    const label = window.prompt('Label for the new hotspot')?.trim();
+    if (!label) return;
+    const detail = window.prompt('Detail (optional)')?.trim() ?? '';
+    curate(current => addHotspot(current, { x, y, label, detail, ...(activeView > 0 && { view: activeView }) }, reviewer.trim()));
+  };
+
+  const exportReviewHistory = () => {
+    if (!data.analysis) return;
+    downloadFile(`review-history-${slugify(data.analysis.identification.type)}.json`, JSON.stringify(reviewOf(data), null, 2), 'application/json');
+  };
+
+  const writeAudienceNarrative = async (audience: Exclude<NarrativeAudience, 'tour'>) => {
+    if (!data.analysis || editsLocked) return;
+    setNarrativePending(audience);
+    try {
+      await commitData(withNarrative(data, audience, await composeNarrative(data, audience)));
+    } finally {
+      setNarrativePending(null);
+    }
+  };
+
+  // Narrating an audience that has no narrative yet writes it first and archives both together.
+  const narrateAudience = async (voice: string, language: string, audience: NarrativeAudience) => {
+    if (!data.analysis || editsLocked) return;
+    let script = narrativeFor(data, audience);
+    if (script !== undefined) return regenerateAsset('audioBlob', { voice, language, audience, script });
+    const written = audience as Exclude<NarrativeAudience, 'tour'>;
+    setNarrativePending(written);
+    try {
+      script = await composeNarrative(data, written);
+    } finally {
+      setNarrativePending(null);
+    }
+    await regenerateAsset('audioBlob', { voice, language, audience, script }, next => withNarrative(next, written, script!));
+  };
+
+  const listenTo = async (audience: NarrativeAudience) => {
+    setShowPlayer(true);
+    if (audience === (data.narration?.audience ?? 'tour') && data.audioBlob) return;
+    await narrateAudience(data.narration?.voice ?? DEFAULT_VOICE, data.narration?.language ?? DEFAULT_LANGUAGE, audience);
+  };
+
+  // The question shows at once; if answering fails it is taken back out and the error bubbles to the chat panel.
+  const askQuestion = async (question: string) => {
+    if (!data.analysis || editsLocked) return;
+    const asked = appendChatMessage(data, { role: 'user', text: question, at: Date.now() });
+    setData(asked);
+    setChatPending(true);
+    try {
+      const reply = await askAboutArtifact(data, question);
+      await commitData(appendChatMessage(asked, reply));
+    } catch (err) {
+      setData(data);
+      throw err;
+    } finally {
+      setChatPending(false);
+    }
+  };
+
+  // Failures reject back to the editor so the painted mask survives for another try.
+  const editRegion = async (mask: string, instruction: string) => {
+    if (!data.analysis || !data.pastImage || editsLocked) return;
+    setRegionBusy(true);
+    try {
+      const version = await renderRegionEdit(data.pastImage, mask, instruction, data.analysis.mode ?? artifactMode);
+      await commitData(await withConsistencyCheck(pushVersion(data, version)));
+    } finally {
+      setRegionBusy(false);
+    }
+  };
+
+  const renderFromChat = (index: number) => {
+    const prompt = data.chat?.[index]?.renderPrompt;
+    if (!prompt) return;
+    regenerateAsset('pastImage', { prompt }, next => (next.assetErrors?.pastImage ? next : markRendered(next, index)));
   };
 
   /* -------------------------------------------------------------
      UPLOAD INTERCEPTION
   ------------------------------------------------------------- */
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  const submitViews = (views: ArtifactView[], assembly?: ShardAssembly) => {
+    if (views.length === 0) return;
     if (artifactMode === 'new') {
-      setPendingFile(file);
+      setPendingViews(views);
+      setPendingAssembly(assembly);
       setShowWarningModal(true);
     } else {
-      processFile(file);
+      processViews(views, assembly);
     }
+  };
 
+  const showReadError = (err: any) => {
+    console.error(err);
+    setError(err?.message || 'The photo could not be read.');
+    setStatus('error');
+  };
+
+  const submitFile = async (file: File) => {
+    try {
+      submitViews(await filesToViews([file]));
+    } catch (err: any) {
+      showReadError(err);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
     // Reset value so onChange triggers again if same file selected
     event.target.value = '';
+    if (files.length === 0) return;
+
+    // A single photo goes straight to analysis; several open the view set editor for role tagging.
+    if (files.length === 1 && stagedViews.length === 0) {
+      submitFile(files[0]);
+    } else {
+      try {
+        setStagedViews([...stagedViews, ...(await filesToViews(files, stagedViews.length))]);
+      } catch (err: any) {
+        showReadError(err);
+      }
+    }
+  };
+
+  const submitStagedViews = () => {
+    submitViews(stagedViews);
+    setStagedViews([]);
+  };
+
+  const reassembleStagedViews = () => {
+    setShardImages(stagedViews.map(v => v.image));
+    setStagedViews([]);
+  };
+
+  // The arrangement is flattened into one top-down photo; the separate fragments ride along as break views.
+  const submitAssembly = async (assembly: ShardAssembly) => {
+    setShardImages([]);
+    try {
+      const composite = await composeAssembly(assembly);
+      submitViews([{ role: 'front', image: composite }, ...assembly.fragments.map(image => ({ role: 'break' as const, image }))], assembly);
+    } catch (err: any) {
+      setError(err.message || 'Could not compose the assembly.');
+      setStatus('error');
+    }
+  };
+
+  const handleCapture = (file: File) => {
+    setShowCamera(false);
+    submitFile(file);
   };
 
   const confirmUpload = () => {
-    if (pendingFile) {
-      processFile(pendingFile);
+    if (pendingViews) {
+      processViews(pendingViews, pendingAssembly);
     }
-    setPendingFile(null);
+    setPendingViews(null);
+    setPendingAssembly(undefined);
     setShowWarningModal(false);
   };
 
   const cancelUpload = () => {
-    setPendingFile(null);
+    setPendingViews(null);
+    setPendingAssembly(undefined);
     setShowWarningModal(false);
   };
 
@@ -187,41 +393,58 @@ const App: React.FC = () => {
     }
   };
 
-  const stopAudio = () => {
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch (e) { }
-      audioSourceRef.current = null;
-    }
-    setIsPlaying(false);
+  const reset = () => {
+    setShowPlayer(false);
+    setStatus('idle');
+    setDraft(null);
+    setData({ analysis: null, pastImage: null, presentImage: null, originalImage: null });
+    setError(null);
+    setValidationIssues([]);
+    setActiveCaseId(null);
+    setShowDamageMap(false);
+    setShow3D(false);
+    setAnnotating(false);
+    setEditingRegion(false);
+    setActiveView(0);
+    setStagedViews([]);
+    setShardImages([]);
   };
 
-  const playNarrative = async () => {
-    if (isPlaying) { stopAudio(); return; }
-    if (!data.audioBlob) return;
-    try {
-      if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const ctx = audioContextRef.current;
-      const base64Str = data.audioBlob.includes(',') ? data.audioBlob.split(',')[1] : data.audioBlob;
-      const bytes = decodeBase64(base64Str);
-      const audioBuffer = await decodeAudioData(bytes, ctx, 24000, 1);
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(ctx.destination);
-      source.onended = () => { setIsPlaying(false); audioSourceRef.current = null; };
-      audioSourceRef.current = source;
-      source.start();
-      setIsPlaying(true);
-    } catch (err) {
-      console.error(err);
-      setIsPlaying(false);
+  const generateReport = () => {
+    if (!data.analysis) return;
+    const html = buildConditionReport(data, artifactContext);
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    // Fall back to a download when pop-ups are blocked.
+    if (!window.open(url, '_blank')) {
+      downloadFile(`condition-report-${slugify(data.analysis.identification.type)}.html`, html, 'text/html');
     }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
   };
 
-  const reset = () => {
-    stopAudio();
-    setStatus('idle');
-    setData({ analysis: null, pastImage: null, presentImage: null, originalImage: null });
+  const labels = MODE_LABELS[data.analysis?.mode ?? artifactMode];
+
+  const hotspotProps = {
+    hotspots: data.analysis?.pastReconstruction.hotspots ?? [],
+    editable: annotating && !editsLocked,
+    onMove: (index: number, x: number, y: number) => curate(current => moveHotspot(current, index, x, y, reviewer.trim())),
+    onToggleRejected: (index: number) => curate(current => toggleHotspotRejected(current, index, reviewer.trim())),
+    onAdd: addCuratorHotspot,
+  };
+
+  const openCase = (record: CaseRecord) => {
+    setShowPlayer(false);
+    setData(record.data);
+    setArtifactContext(record.context);
+    setActiveCaseId(record.id);
+    setShowDamageMap(false);
+    setShow3D(false);
+    setAnnotating(false);
+    setEditingRegion(false);
+    setReviewer(record.data.review?.reviewer ?? reviewer);
+    setActiveView(0);
     setError(null);
+    setStatus('complete');
+    setPanel('scan');
   };
 
   return (
@@ -236,15 +459,49 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-6">
-          {status === 'complete' && (
+          <button
+            onClick={() => setPanel(panel === 'batch' ? 'scan' : 'batch')}
+            className={`text-xs font-bold uppercase tracking-widest transition-colors ${panel === 'batch' ? 'text-[#d4af37]' : 'text-stone-500 hover:text-white'}`}
+          >
+            <i className="fas fa-boxes-stacked mr-2"></i>Batch
+          </button>
+          <button
+            onClick={() => setPanel(panel === 'library' ? 'scan' : 'library')}
+            className={`text-xs font-bold uppercase tracking-widest transition-colors ${panel === 'library' ? 'text-[#d4af37]' : 'text-stone-500 hover:text-white'}`}
+          >
+            <i className="fas fa-box-archive mr-2"></i>Case Library
+          </button>
+          <button
+            onClick={() => setPanel(panel === 'catalogue' ? 'scan' : 'catalogue')}
+            className={`text-xs font-bold uppercase tracking-widest transition-colors ${panel === 'catalogue' ? 'text-[#d4af37]' : 'text-stone-500 hover:text-white'}`}
+          >
+            <i className="fas fa-book-atlas mr-2"></i>Catalogue
+          </button>
+          {(status === 'complete' || status === 'generating') && (
             <button
-              onClick={playNarrative}
-              className={`flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all ${isPlaying ? 'bg-[#d4af37] text-black border-[#d4af37] shadow-lg shadow-[#d4af37]/20' : 'bg-white/5 border-white/10 text-white hover:bg-white/10'}`}
+              onClick={() => setShowPlayer(!showPlayer)}
+              disabled={!data.audioBlob && !data.assetErrors?.audioBlob}
+              className={`flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-50 ${showPlayer ? 'bg-[#d4af37] text-black border-[#d4af37] shadow-lg shadow-[#d4af37]/20' : 'bg-white/5 border-white/10 text-white hover:bg-white/10'}`}
             >
-              <i className={`fas ${isPlaying ? 'fa-pause' : 'fa-headphones'}`}></i>
-              {isPlaying ? 'Guide Active' : 'Listen to Curator'}
+              <i className={`fas ${showPlayer ? 'fa-pause' : data.audioBlob ? 'fa-headphones' : data.assetErrors?.audioBlob ? 'fa-volume-xmark' : 'fa-circle-notch fa-spin'}`}></i>
+              {showPlayer ? 'Guide Active' : data.audioBlob ? 'Listen to Curator' : data.assetErrors?.audioBlob ? 'Narration Failed' : 'Synthesizing Narration'}
             </button>
           )}
+          {status === 'complete' && data.analysis && (
+            <button
+              onClick={generateReport}
+              className="flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all bg-white/5 border-white/10 text-white hover:bg-white/10"
+            >
+              <i className="fas fa-file-lines"></i>
+              Generate Report
+            </button>
+          )}
+          {status === 'complete' && data.analysis && (
+            <ExportMenu
+              records={[{ id: activeCaseId ?? 'unsaved', createdAt: data.provenance?.generatedAt ?? Date.now(), context: artifactContext, data }]}
+              baseName={slugify(data.analysis.identification.type)}
+            />
+          )}
           {status !== 'idle' && (
             <button onClick={reset} className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
               Reset System
@@ -268,7 +525,20 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {status === 'idle' && hasKey && (
+        {panel === 'library' && (
+          <CaseLibrary onOpen={openCase} onClose={() => setPanel('scan')} />
+        )}
+
+        {panel === 'catalogue' && (
+          <ReferenceCatalogue onClose={() => setPanel('scan')} />
+        )}
+
+        {/* Kept mounted while hidden so a running queue survives visits to an item's dashboard */}
+        <div className={panel === 'batch' ? '' : 'hidden'}>
+          <BatchPanel mode={artifactMode} onOpen={openCase} onClose={() => setPanel('scan')} />
+        </div>
+
+        {panel === 'scan' && status === 'idle' && hasKey && (
           <div className="max-w-4xl mx-auto py-20 text-center animate-in fade-in duration-1000">
             <h1 className="text-7xl md:text-9xl font-serif italic mb-8 leading-tight">
               Archeology, <br /> <span className="gold-gradient not-italic font-sans tracking-tighter uppercase text-6xl md:text-8xl">Digitized.</span>
@@ -303,11 +573,29 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="flex justify-center items-center gap-4 mb-8">
+              <span className="text-[10px] uppercase font-bold text-stone-600 tracking-widest" title="Analyse the photographs several times and score confidence by how often the answers agree">
+                Self-Consistency
+              </span>
+              <div className="bg-white/5 rounded-full p-1 border border-white/10 flex items-center">
+                {CONSISTENCY_RUN_OPTIONS.map(runs => (
+                  <button
+                    key={runs}
+                    type="button"
+                    onClick={() => setConsistencyRuns(runs)}
+                    className={`px-5 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${consistencyRuns === runs ? 'bg-white/10 text-[#d4af37]' : 'text-stone-500 hover:text-white'}`}
+                  >
+                    {runs === 1 ? 'Off' : `${runs} Runs`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="max-w-xl mx-auto mb-12 relative group z-10">
               <textarea
                 value={artifactContext}
                 onChange={(e) => setArtifactContext(e.target.value)}
-                placeholder="OPTIONAL: Provide context hint (e.g. 'Found in Rome, 2nd Century')"
+                placeholder={labels.contextPlaceholder}
                 className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-stone-300 placeholder:text-stone-600 focus:outline-none focus:border-[#d4af37]/50 focus:bg-white/10 transition-all resize-none h-24 text-sm font-mono backdrop-blur-md"
               />
               <div className="absolute top-2 right-2 text-[10px] uppercase font-bold text-stone-600 tracking-widest pointer-events-none">
@@ -315,21 +603,53 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <label className="relative block group cursor-pointer max-w-xl mx-auto">
-              <div className="absolute -inset-4 bg-[#d4af37]/10 rounded-[3rem] blur-2xl opacity-0 group-hover:opacity-100 transition duration-700"></div>
-              <div className="relative h-96 glass-card rounded-[2.5rem] border-2 border-dashed border-white/5 group-hover:border-[#d4af37]/30 transition-all flex flex-col items-center justify-center overflow-hidden">
-                <input ref={fileInputRef} type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
-                <div className="w-24 h-24 bg-white/5 rounded-3xl flex items-center justify-center mb-6 group-hover:scale-110 transition-transform">
-                  <LogoIcon />
+            {shardImages.length > 0 ? (
+              <Suspense fallback={<p className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Loading 3D engine...</p>}>
+                <ReassemblyWorkspace
+                  fragments={shardImages}
+                  mode={artifactMode}
+                  context={artifactContext}
+                  onSubmit={submitAssembly}
+                  onCancel={() => setShardImages([])}
+                />
+              </Suspense>
+            ) : stagedViews.length > 0 ? (
+              <ViewSetEditor
+                views={stagedViews}
+                onChange={setStagedViews}
+                onSubmit={submitStagedViews}
+                onReassemble={reassembleStagedViews}
+                onCancel={() => setStagedViews([])}
+              />
+            ) : (
+              <label className="relative block group cursor-pointer max-w-xl mx-auto">
+                <div className="absolute -inset-4 bg-[#d4af37]/10 rounded-[3rem] blur-2xl opacity-0 group-hover:opacity-100 transition duration-700"></div>
+                <div className="relative h-96 glass-card rounded-[2.5rem] border-2 border-dashed border-white/5 group-hover:border-[#d4af37]/30 transition-all flex flex-col items-center justify-center overflow-hidden">
+                  <input ref={fileInputRef} type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
+                  <div className="w-24 h-24 bg-white/5 rounded-3xl flex items-center justify-center mb-6 group-hover:scale-110 transition-transform">
+                    <LogoIcon />
+                  </div>
+                  <span className="text-sm font-bold uppercase tracking-widest text-stone-300">Initiate Forensic Scan</span>
+                  <span className="text-[10px] text-stone-600 mt-4 tracking-[0.2em] uppercase font-mono italic">Ready for shard analysis · select several photos for multi-view</span>
                 </div>
-                <span className="text-sm font-bold uppercase tracking-widest text-stone-300">Initiate Forensic Scan</span>
-                <span className="text-[10px] text-stone-600 mt-4 tracking-[0.2em] uppercase font-mono italic">Ready for shard analysis</span>
-              </div>
-            </label>
+              </label>
+            )}
+
+            <button
+              type="button"
+              onClick={() => setShowCamera(true)}
+              className="mt-8 px-8 py-3 rounded-full border border-white/10 bg-white/5 text-xs font-bold uppercase tracking-widest text-stone-300 hover:border-[#d4af37]/40 hover:text-white transition-all"
+            >
+              <i className="fas fa-camera mr-2 text-[#d4af37]"></i>Capture with Camera
+            </button>
           </div>
         )}
 
-        {(status === 'analyzing' || status === 'generating') && (
+        {panel === 'scan' && status === 'analyzing' && draft && (
+          <StreamingAnalysis draft={draft} labels={labels} fragmentImage={data.originalImage} />
+        )}
+
+        {panel === 'scan' && status === 'analyzing' && !draft && (
           <div className="max-w-xl mx-auto py-32 text-center relative">
             <div className="w-64 h-64 mx-auto mb-16 relative">
               <div className="absolute inset-0 rounded-full border-2 border-white/5"></div>
@@ -339,15 +659,15 @@ const App: React.FC = () => {
               </div>
             </div>
             <h2 className="text-2xl font-bold tracking-[0.4em] uppercase text-white mb-4 animate-pulse">
-              {status === 'analyzing' ? 'Grounding History' : 'Geometry Synthesis'}
+              {labels.analyzingHeadline}
             </h2>
             <p className="text-stone-600 mt-6 font-mono text-[10px] uppercase tracking-widest">
-              {status === 'analyzing' ? 'Fetching global archaeological records...' : 'Synthesizing complete volumetric data...'}
+              {labels.analyzingDetail}
             </p>
           </div>
         )}
 
-        {status === 'complete' && data.analysis && (
+        {panel === 'scan' && (status === 'generating' || status === 'complete') && data.analysis && (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
 
             {/* Visual Section */}
@@ -355,64 +675,320 @@ const App: React.FC = () => {
               <section className="glass-card rounded-[3rem] p-10 relative overflow-hidden border-white/10">
                 <div className="flex justify-between items-center mb-8">
                   <h3 className="text-xs font-bold uppercase tracking-[0.3em] text-[#d4af37]">Reassembly Workspace</h3>
-                  <div className="px-4 py-1.5 rounded-full bg-[#d4af37]/10 border border-[#d4af37]/20 text-[10px] font-mono text-[#d4af37] font-bold uppercase tracking-widest">
-                    ID: {data.analysis.identification.civilization}
+                  <div className="flex items-center gap-3">
+                    {(data.analysis.damageAnalysis.regions?.length ?? 0) > 0 && (
+                      <button
+                        onClick={() => { setShowDamageMap(!showDamageMap); setShow3D(false); setAnnotating(false); setEditingRegion(false); }}
+                        className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all ${showDamageMap ? 'bg-red-500/20 border-red-500/40 text-red-300' : 'bg-white/5 border-white/10 text-stone-400 hover:text-white'}`}
+                      >
+                        <i className="fas fa-layer-group mr-2"></i>Damage Map
+                      </button>
+                    )}
+                    {data.originalImage && data.pastImage && (
+                      <button
+                        onClick={() => { setShow3D(!show3D); setShowDamageMap(false); setAnnotating(false); setEditingRegion(false); setActiveView(0); }}
+                        className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all ${show3D ? 'bg-[#d4af37]/20 border-[#d4af37]/40 text-[#d4af37]' : 'bg-white/5 border-white/10 text-stone-400 hover:text-white'}`}
+                      >
+                        <i className="fas fa-cube mr-2"></i>{show3D ? '2D' : '3D'}
+                      </button>
+                    )}
+                    {data.pastImage && (
+                      <button
+                        onClick={() => { setEditingRegion(!editingRegion); setShowDamageMap(false); setShow3D(false); setAnnotating(false); setActiveView(0); }}
+                        disabled={editsLocked && !editingRegion}
+                        title="Paint over part of the reconstruction and describe how to redraw it"
+                        className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${editingRegion ? 'bg-[#d4af37]/20 border-[#d4af37]/40 text-[#d4af37]' : 'bg-white/5 border-white/10 text-stone-400 hover:text-white'}`}
+                      >
+                        <i className="fas fa-paintbrush mr-2"></i>Edit Region
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { setAnnotating(!annotating); setShowDamageMap(false); setShow3D(false); setEditingRegion(false); }}
+                      disabled={editsLocked}
+                      title="Drag hotspots, click one to reject it, or click the image to add one"
+                      className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${annotating ? 'bg-sky-500/20 border-sky-400/40 text-sky-300' : 'bg-white/5 border-white/10 text-stone-400 hover:text-white'}`}
+                    >
+                      <i className="fas fa-location-dot mr-2"></i>Annotate
+                    </button>
+                    {data.review && (
+                      <span className="text-[10px] font-mono text-stone-500 uppercase tracking-widest">
+                        <i className="fas fa-clipboard-check mr-2"></i>{data.review.status}
+                      </span>
+                    )}
+                    {data.assembly && (
+                      <span className="text-[10px] font-mono text-stone-500 uppercase tracking-widest">
+                        <i className="fas fa-puzzle-piece mr-2"></i>{data.assembly.fragments.length} Fragments · {data.assembly.confirmed.length} Joins
+                      </span>
+                    )}
+                    {activeCaseId && (
+                      <span className="text-[10px] font-mono text-stone-500 uppercase tracking-widest">
+                        <i className="fas fa-box-archive mr-2"></i>Archived
+                      </span>
+                    )}
+                    <div className="px-4 py-1.5 rounded-full bg-[#d4af37]/10 border border-[#d4af37]/20 text-[10px] font-mono text-[#d4af37] font-bold uppercase tracking-widest">
+                      ID: {data.analysis.identification.civilization}
+                    </div>
                   </div>
                 </div>
 
+                {status === 'generating' && <GenerationProgress data={data} labels={labels} />}
+
                 <div className="relative aspect-square bg-stone-950 rounded-3xl overflow-hidden border border-white/5 group shadow-2xl flex items-center justify-center">
-                  {data.originalImage && data.pastImage && (
-                    <ComparisonSlider
-                      beforeImage={data.originalImage}
-                      afterImage={data.pastImage}
-                      beforeLabel="Found Fragment"
-                      afterLabel="Reconstructed"
+                  {activeView > 0 && data.views?.[activeView] ? (
+                    <>
+                      <img src={data.views[activeView].image} alt={`View ${activeView}`} className="absolute inset-0 w-full h-full object-cover" />
+                      <HotspotLayer {...hotspotProps} view={activeView} />
+                    </>
+                  ) : editingRegion && data.pastImage ? (
+                    <RegionEditor
+                      image={data.pastImage}
+                      labels={labels}
+                      versions={versionsOf(data)}
+                      activeVersion={data.pastImageVersion}
+                      busy={regionBusy}
+                      locked={editsLocked && !regionBusy}
+                      onSubmit={editRegion}
+                      onSelectVersion={(index) => !editsLocked && withConsistencyCheck(selectVersion(data, index)).then(commitData)}
                     />
+                  ) : show3D && data.originalImage && data.pastImage ? (
+                    <Suspense fallback={<p className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Loading 3D engine...</p>}>
+                      <Relief3DViewer
+                        originalImage={data.originalImage}
+                        pastImage={data.pastImage}
+                        labels={labels}
+                        fileName={`reconstruction-${slugify(data.analysis.identification.type)}`}
+                      />
+                    </Suspense>
+                  ) : showDamageMap && data.originalImage ? (
+                    <>
+                      <img src={data.originalImage} alt={labels.fragment} className="absolute inset-0 w-full h-full object-cover" />
+                      <DamageLayer regions={data.analysis.damageAnalysis.regions ?? []} />
+                    </>
+                  ) : (
+                    <>
+                      {data.originalImage && data.pastImage ? (
+                        <ReconstructionViewer
+                          originalImage={data.originalImage}
+                          presentImage={data.presentImage}
+                          pastImage={data.pastImage}
+                          labels={labels}
+                        />
+                      ) : data.originalImage && (
+                        <>
+                          <img src={data.originalImage} alt={labels.fragment} className="absolute inset-0 w-full h-full object-cover opacity-40" />
+                          {data.assetErrors?.pastImage && regenerating !== 'pastImage' ? (
+                            <div className="relative text-center max-w-sm p-8 bg-black/70 border border-red-500/30 rounded-3xl">
+                              <i className="fas fa-triangle-exclamation text-2xl text-red-400 mb-4"></i>
+                              <p className="text-[10px] text-red-300 uppercase tracking-widest font-bold mb-2">{labels.reconstructed} failed</p>
+                              <p className="text-xs text-stone-400 mb-6">{data.assetErrors.pastImage}</p>
+                              <button
+                                onClick={() => regenerateAsset('pastImage', {})}
+                                disabled={regenerating !== null}
+                                className="px-6 py-2 rounded-full bg-[#d4af37] text-black text-[10px] font-bold uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+                              >
+                                <i className="fas fa-rotate mr-2"></i>Regenerate
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="relative text-center">
+                              <i className="fas fa-circle-notch fa-spin text-2xl text-[#d4af37] mb-4"></i>
+                              <p className="text-[10px] text-stone-400 uppercase tracking-widest font-mono">Synthesizing {labels.reconstructed}...</p>
+                            </div>
+                          )}
+                        </>
+                      )}
+                      <HotspotLayer {...hotspotProps} view={0} />
+                    </>
                   )}
-                  <HotspotLayer hotspots={data.analysis.pastReconstruction.hotspots} />
                   <div className="scan-line"></div>
                 </div>
 
-                <div className="mt-8 p-8 bg-stone-900/40 border border-white/5 rounded-[2rem]">
-                  <h4 className="text-xs font-bold text-stone-500 uppercase tracking-widest mb-4">Archaeological Brief</h4>
-                  <p className="text-lg text-stone-300 leading-relaxed font-serif italic">
-                    "{data.analysis.pastReconstruction.description}"
-                  </p>
+                {data.views && data.views.length > 1 && (
+                  <div className="mt-6 flex gap-3 overflow-x-auto">
+                    {data.views.map((view, idx) => (
+                      <button
+                        key={idx}
+                        onClick={() => setActiveView(idx)}
+                        className={`relative w-20 h-20 shrink-0 rounded-2xl overflow-hidden border-2 transition-all ${activeView === idx ? 'border-[#d4af37]' : 'border-white/5 opacity-60 hover:opacity-100'}`}
+                      >
+                        <img src={view.image} alt={view.role} className="w-full h-full object-cover" />
+                        <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[9px] uppercase tracking-widest text-white py-0.5">{view.role}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {showDamageMap ? (
+                    <div className="p-8 bg-stone-900/40 border border-red-500/10 rounded-[2rem]">
+                      <h4 className="text-xs font-bold text-red-300/80 uppercase tracking-widest mb-4">Damage Assessment</h4>
+                      <p className="text-sm text-stone-300 leading-relaxed mb-4">{data.analysis.damageAnalysis.description}</p>
+                      <span className="text-[10px] text-stone-600 uppercase block mb-1">Missing Sections</span>
+                      <p className="text-sm text-stone-400 leading-relaxed">{data.analysis.damageAnalysis.missingSections}</p>
+                    </div>
+                  ) : (
+                    <div className="p-8 bg-stone-900/40 border border-white/5 rounded-[2rem]">
+                      <h4 className="text-xs font-bold text-stone-500 uppercase tracking-widest mb-4">{labels.brief}</h4>
+                      <p className="text-lg text-stone-300 leading-relaxed font-serif italic">
+                        "{data.analysis.pastReconstruction.description}"
+                      </p>
+                    </div>
+                  )}
+                  <div className="p-8 bg-[#d4af37]/5 border border-[#d4af37]/10 rounded-[2rem] flex gap-6">
+                    {data.presentImage ? (
+                      <img src={data.presentImage} alt={labels.restored} className="w-24 h-24 rounded-2xl object-cover border border-white/10 shrink-0" />
+                    ) : data.assetErrors?.presentImage ? (
+                      <button
+                        onClick={() => regenerateAsset('presentImage', {})}
+                        disabled={regenerating !== null}
+                        title={data.assetErrors.presentImage}
+                        className="w-24 h-24 rounded-2xl border border-red-500/30 shrink-0 bg-red-500/10 flex flex-col items-center justify-center gap-2 text-red-400 hover:bg-red-500/20 disabled:opacity-50 transition-colors"
+                      >
+                        <i className={`fas ${regenerating === 'presentImage' ? 'fa-circle-notch fa-spin' : 'fa-rotate'}`}></i>
+                        <span className="text-[9px] font-bold uppercase tracking-widest">Regenerate</span>
+                      </button>
+                    ) : status === 'generating' && (
+                      <div className="w-24 h-24 rounded-2xl border border-white/10 shrink-0 bg-white/5 animate-pulse flex items-center justify-center">
+                        <i className="fas fa-circle-notch fa-spin text-stone-600"></i>
+                      </div>
+                    )}
+                    <div>
+                      <h4 className="text-xs font-bold text-[#d4af37] uppercase tracking-widest mb-4">
+                        <i className="fas fa-screwdriver-wrench mr-2"></i>{labels.conservation}
+                      </h4>
+                      <p className="text-sm text-stone-300 leading-relaxed">
+                        {data.analysis.modernRestoration.description || 'No conservation notes were produced for this object.'}
+                      </p>
+                    </div>
+                  </div>
                 </div>
               </section>
 
+              <HypothesisGallery
+                data={data}
+                labels={labels}
+                locked={editsLocked}
+                generating={status === 'generating' || retryingVariant !== null}
+                voted={hasVoted(data, voter)}
+                onVote={(index) => !editsLocked && commitData(voteForHypothesis(data, index, voter))}
+                onAccept={(index) => !editsLocked && withConsistencyCheck(recordAcceptance(data, acceptHypothesis(data, index), index, reviewer.trim())).then(commitData)}
+                onRetry={retryVariant}
+              />
+
+              <AssetStudio
+                data={data}
+                labels={labels}
+                busy={regenerating}
+                generating={status === 'generating'}
+                onRegenerate={regenerateAsset}
+              />
+
               <section className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="glass-card rounded-[2.5rem] p-8 border-white/5">
                   <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500 mb-8">Metadata Match</h4>
                   <div className="space-y-6">
                     <div className="border-b border-white/5 pb-4">
-                      <span className="text-[10px] text-stone-600 uppercase block mb-1">Civilization</span>
+                      <span className="text-[10px] text-stone-600 uppercase block mb-1">{labels.origin}</span>
                       <span className="text-xl font-serif text-white leading-tight">{data.analysis.identification.civilization}</span>
+                      <CitationMarks analysis={data.analysis} field="identification.civilization" curated={sourceOf(data, 'analysis.identification.civilization') === 'curator'} />
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <span className="text-[10px] text-stone-600 uppercase block mb-1">Object Class</span>
+                        <span className="text-[10px] text-stone-600 uppercase block mb-1">{labels.objectClass}</span>
                         <span className="text-sm font-bold text-[#d4af37]">{data.analysis.identification.type}</span>
+                        <CitationMarks analysis={data.analysis} field="identification.type" curated={sourceOf(data, 'analysis.identification.type') === 'curator'} />
                       </div>
                       <div>
-                        <span className="text-[10px] text-stone-600 uppercase block mb-1">Period</span>
+                        <span className="text-[10px] text-stone-600 uppercase block mb-1">{labels.period}</span>
                         <span className="text-sm font-bold text-white">{data.analysis.identification.era}</span>
+                        <CitationMarks analysis={data.analysis} field="identification.era" curated={sourceOf(data, 'analysis.identification.era') === 'curator'} />
                       </div>
                     </div>
+                    {data.analysis.identification.repairMethod && (
+                      <div className="border-t border-white/5 pt-4">
+                        <span className="text-[10px] text-stone-600 uppercase block mb-1">Repair Method</span>
+                        <span className="text-sm text-stone-300 leading-relaxed">{data.analysis.identification.repairMethod}</span>
+                        <CitationMarks analysis={data.analysis} field="identification.repairMethod" curated={sourceOf(data, 'analysis.identification.repairMethod') === 'curator'} />
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 <div className="glass-card rounded-[2.5rem] p-8 border-white/5">
                   <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500 mb-8">Model Confidence</h4>
-                  <div className="flex items-end gap-2 mb-4">
-                    <span className="text-6xl font-black text-[#d4af37] leading-none">{data.analysis.confidenceScore}%</span>
-                    <span className="text-[10px] uppercase font-bold text-stone-600 pb-1">Score</span>
+                  <div className="flex items-end justify-between gap-4 mb-4">
+                    {data.analysis.confidenceBreakdown?.length ? (
+                      <div className="flex items-end gap-2" title="Mean of the dimension scores below">
+                        <span className="text-4xl font-black text-[#d4af37] leading-none">{overallConfidence(data.analysis)}%</span>
+                        <span className="text-[10px] uppercase font-bold text-stone-600 pb-1">
+                          {data.analysis.consistencyRuns ? `Agreement · ${data.analysis.consistencyRuns} runs` : 'Mean of dimensions'}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex items-end gap-2">
+                        <span className="text-6xl font-black text-[#d4af37] leading-none">{data.analysis.confidenceScore}%</span>
+                        <span className="text-[10px] uppercase font-bold text-stone-600 pb-1">Score</span>
+                      </div>
+                    )}
+                    {data.consistency && (
+                      <div className="text-right" title={`Structural similarity between the surviving fragment and the same area of the ${labels.reconstructed.toLowerCase()} render`}>
+                        <span className={`text-3xl font-black leading-none block ${data.consistency.passed ? 'text-emerald-300' : 'text-red-400'}`}>{data.consistency.similarity}%</span>
+                        <span className="text-[10px] uppercase font-bold text-stone-600">Fragment Match</span>
+                      </div>
+                    )}
                   </div>
                   <p className="text-xs text-stone-400 leading-relaxed">
                     {data.analysis.confidenceExplanation}
                   </p>
+                  {data.analysis.confidenceBreakdown?.length ? (
+                    <div className="mt-6 pt-6 border-t border-white/5">
+                      <ConfidenceBreakdown analysis={data.analysis} labels={labels} />
+                    </div>
+                  ) : null}
+                  {data.consistency && !data.consistency.passed && (
+                    <div className="mt-4 p-4 rounded-2xl bg-red-500/10 border border-red-500/20 flex items-center justify-between gap-4">
+                      <p className="text-[11px] text-red-300 leading-relaxed">
+                        The render departs from the surviving fragment (below {SIMILARITY_THRESHOLD}%{data.consistency.attempts > 1 ? `, best of ${data.consistency.attempts} renders` : ''}). Treat its details with caution.
+                      </p>
+                      <button
+                        onClick={() => regenerateAsset('pastImage', {})}
+                        disabled={editsLocked}
+                        className="shrink-0 text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30"
+                      >
+                        <i className="fas fa-rotate mr-2"></i>Regenerate
+                      </button>
+                    </div>
+                  )}
+                  {data.analysis.assumptions && (
+                    <div className="mt-6 pt-4 border-t border-white/5">
+                      <span className="text-[10px] text-stone-600 uppercase block mb-1">Assumptions</span>
+                      <p className="text-xs text-stone-500 leading-relaxed italic">{data.analysis.assumptions}</p>
+                    </div>
+                  )}
                 </div>
               </section>
+
+              <ReviewPanel
+                data={data}
+                labels={labels}
+                reviewer={reviewer}
+                onReviewerChange={setReviewer}
+                locked={editsLocked}
+                onStatus={(next) => curate(current => setReviewStatus(current, next, reviewer.trim()))}
+                onEditIdentification={(field, value) => curate(current => editIdentification(current, field, value, reviewer.trim()))}
+                onAnnotate={(index, note) => curate(current => annotateTimeline(current, index, note, reviewer.trim()))}
+                onExportHistory={exportReviewHistory}
+              />
+
+              <ArtifactChat
+                data={data}
+                labels={labels}
+                onAsk={askQuestion}
+                pending={chatPending}
+                locked={editsLocked}
+                onApplyRefinement={(messageIndex, refinementIndex) => curate(current => applyRefinement(current, messageIndex, refinementIndex, reviewer.trim()))}
+                onRender={renderFromChat}
+              />
             </div>
 
             {/* Sidebar Data Section */}
@@ -421,6 +997,10 @@ const App: React.FC = () => {
                 <h3 className="text-3xl font-serif italic mb-10">Forensic Evidence</h3>
 
                 <div className="space-y-10 flex-1">
+                  {data.referenceMatches && data.referenceMatches.length > 0 && (
+                    <ReferenceMatches matches={data.referenceMatches} />
+                  )}
+
                   <div>
                     <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-[#d4af37] mb-6">Grounding Sources</h4>
                     <div className="space-y-4">
@@ -433,8 +1013,11 @@ const App: React.FC = () => {
                             rel="noopener noreferrer"
                             className="flex items-center gap-3 p-4 bg-white/5 rounded-2xl border border-white/5 hover:border-[#d4af37]/40 hover:bg-white/10 transition-all group"
                           >
-                            <i className="fas fa-search text-xs text-stone-600 group-hover:text-[#d4af37]"></i>
-                            <span className="text-xs text-stone-400 group-hover:text-white truncate font-medium">{source.title}</span>
+                            <span className="text-[10px] font-mono text-stone-600 group-hover:text-[#d4af37]">[{i + 1}]</span>
+                            <span className="flex-1 min-w-0">
+                              <span className="text-xs text-stone-400 group-hover:text-white truncate font-medium block">{source.title}</span>
+                              {source.kind && <span className="text-[9px] uppercase tracking-widest text-stone-600">{SOURCE_KIND_LABELS[source.kind]}</span>}
+                            </span>
                           </a>
                         ))
                       ) : (
@@ -451,7 +1034,15 @@ const App: React.FC = () => {
                           {i < data.analysis!.timeline.length - 1 && <div className="absolute left-[3px] top-4 w-px h-full bg-white/10"></div>}
                           <div className="absolute left-0 top-1.5 w-2 h-2 rounded-full bg-[#d4af37] shadow-[0_0_10px_rgba(212,175,55,0.5)]"></div>
                           <span className="text-xs font-bold text-white block mb-1">{event.year}</span>
-                          <p className="text-xs text-stone-500 leading-normal">{event.event}</p>
+                          <p className="text-xs text-stone-500 leading-normal">
+                            {event.event}
+                            <CitationMarks analysis={data.analysis!} field={`timeline.${i}`} />
+                          </p>
+                          {event.note && (
+                            <p className="text-xs text-sky-300/80 leading-normal italic mt-2">
+                              <i className="fas fa-user-pen mr-2"></i>{event.note}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -459,28 +1050,35 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="mt-12 pt-8 border-t border-white/5">
-                  <div className="p-6 bg-[#d4af37]/5 rounded-3xl border border-[#d4af37]/10">
-                    <div className="flex items-center gap-3 mb-3">
-                      <i className="fas fa-podcast text-[#d4af37] text-sm"></i>
-                      <span className="text-[10px] font-bold uppercase tracking-widest text-white">Fact-Checked Guide</span>
-                    </div>
-                    <p className="text-xs text-stone-400 leading-relaxed italic font-serif">
-                      "{data.analysis.curatorNarrative.split('.')[0]}..."
-                    </p>
-                  </div>
+                  <AudienceNarratives
+                    data={data}
+                    pending={narrativePending}
+                    locked={editsLocked}
+                    onWrite={writeAudienceNarrative}
+                    onListen={listenTo}
+                  />
                 </div>
               </section>
             </div>
           </div>
         )}
 
-        {status === 'error' && (
+        {panel === 'scan' && status === 'error' && (
           <div className="max-w-xl mx-auto py-32 text-center">
             <div className="w-20 h-20 bg-red-500/10 rounded-full flex items-center justify-center mx-auto mb-8 border border-red-500/20">
               <i className="fas fa-exclamation-triangle text-3xl text-red-500"></i>
             </div>
-            <h2 className="text-2xl font-serif italic mb-4">Reconstruction Halted</h2>
+            <h2 className="text-2xl font-serif italic mb-4">{validationIssues.length ? 'Analysis Rejected' : 'Reconstruction Halted'}</h2>
             <p className="text-stone-400 mb-10">{error}</p>
+            {validationIssues.length > 0 && (
+              <ul className="text-left mb-10 p-6 bg-stone-900/40 border border-red-500/10 rounded-2xl space-y-2">
+                {validationIssues.map((issue, i) => (
+                  <li key={i} className="text-[10px] font-mono text-red-300/80 uppercase tracking-wider">
+                    <i className="fas fa-xmark mr-2"></i>{issue}
+                  </li>
+                ))}
+              </ul>
+            )}
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <button onClick={retryScan} className="bg-[#d4af37] text-black px-10 py-3 rounded-full font-bold uppercase tracking-widest text-xs hover:scale-105 transition-transform shadow-lg shadow-[#d4af37]/20">
                 Retry Scan
@@ -493,6 +1091,10 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {showCamera && (
+        <CameraCapture onCapture={handleCapture} onClose={() => setShowCamera(false)} />
+      )}
+
       {/* Warning Modal */}
       {showWarningModal && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-300">
@@ -501,9 +1103,9 @@ const App: React.FC = () => {
               <div className="w-16 h-16 bg-[#d4af37]/10 rounded-full flex items-center justify-center mx-auto mb-4 text-[#d4af37]">
                 <i className="fas fa-exclamation-triangle text-2xl"></i>
               </div>
-              <h3 className="text-2xl font-serif italic mb-2">Experimental Feature</h3>
+              <h3 className="text-2xl font-serif italic mb-2">Modern Object Mode</h3>
               <p className="text-stone-400 text-sm leading-relaxed">
-                You have selected "New" artifact mode. Results generated in this mode may not be fully historically accurate.
+                "New" mode identifies recent manufactured items by maker, production decade and repair method instead of civilization and era. Coverage of mass-produced goods is still experimental.
               </p>
             </div>
             <div className="flex gap-3">
@@ -524,33 +1126,15 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {/* Audio Engine UI */}
-      {isPlaying && (
-        <div className="fixed bottom-10 right-10 z-[100] w-96 glass-card p-8 rounded-[2rem] border-[#d4af37]/40 animate-in slide-in-from-bottom-10 shadow-2xl">
-          <div className="flex items-center gap-4 mb-6">
-            <div className="w-12 h-12 rounded-2xl bg-[#d4af37] flex items-center justify-center text-[#050505]">
-              <i className="fas fa-waveform"></i>
-            </div>
-            <div className="flex-1">
-              <span className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] block mb-0.5">Synthesis Engine</span>
-              <div className="h-1 w-full bg-white/5 rounded-full mt-2 overflow-hidden">
-                <div className="h-full bg-[#d4af37] animate-[loading_2s_linear_infinite]"></div>
-              </div>
-            </div>
-            <button onClick={stopAudio} className="text-stone-500 hover:text-white p-2 transition-colors">
-              <i className="fas fa-times"></i>
-            </button>
-          </div>
-          <p className="text-sm italic font-serif leading-relaxed text-white">"{data.analysis?.curatorNarrative}"</p>
-        </div>
+      {showPlayer && (
+        <NarrationPlayer
+          data={data}
+          busy={regenerating === 'audioBlob'}
+          locked={editsLocked}
+          onRenarrate={narrateAudience}
+          onClose={() => setShowPlayer(false)}
+        />
       )}
-
-      <style>{`
-        @keyframes loading {
-          0% { transform: translateX(-100%); }
-          100% { transform: translateX(200%); }
-        }
-      `}</style>
     </div>
   );
 };
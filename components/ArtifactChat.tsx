@@ -0,0 +1,175 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GroundingSource, ReconstructionData } from '../types';
+import { ModeLabels } from '../constants';
+
+interface ArtifactChatProps {
+  data: ReconstructionData;
+  labels: ModeLabels;
+  /** Rejects when the question could not be answered, so the text can be kept for a retry. */
+  onAsk: (question: string) => Promise<void>;
+  pending: boolean;
+  /** True while renders are still arriving or another change is in flight. */
+  locked: boolean;
+  onApplyRefinement: (messageIndex: number, refinementIndex: number) => void;
+  onRender: (messageIndex: number) => void;
+}
+
+// [n] markers refer to the analysis' own numbered sources; anything else is left as written.
+const withCitations = (text: string, sources: GroundingSource[]) =>
+  text.split(/(\[\d+\])/g).map((part, i) => {
+    const source = /^\[(\d+)\]$/.test(part) ? sources[Number(part.slice(1, -1)) - 1] : undefined;
+    return source ? (
+      <a key={i} href={source.uri} target="_blank" rel="noopener noreferrer" title={source.title} className="text-[#d4af37] hover:text-white font-mono text-[10px] align-super">
+        {part}
+      </a>
+    ) : (
+      <React.Fragment key={i}>{part}</React.Fragment>
+    );
+  });
+
+const ArtifactChat: React.FC<ArtifactChatProps> = ({ data, labels, onAsk, pending, locked, onApplyRefinement, onRender }) => {
+  const [question, setQuestion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const threadRef = useRef<HTMLDivElement>(null);
+  const messages = data.chat ?? [];
+
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, pending]);
+
+  if (!data.analysis) return null;
+  const sources = data.analysis.sources;
+
+  const suggestions = [
+    `Why ${data.analysis.identification.civilization} and not another ${data.analysis.mode === 'new' ? 'maker' : 'culture'}?`,
+    'What would the missing parts have looked like?',
+    'How was it made?',
+  ];
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending || locked) return;
+    setError(null);
+    setQuestion('');
+    try {
+      await onAsk(trimmed);
+    } catch (err: any) {
+      setQuestion(trimmed);
+      setError(err?.message || 'The question could not be answered.');
+    }
+  };
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 border-white/5">
+      <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500 mb-6">Ask About This {data.analysis.mode === 'new' ? 'Object' : 'Artifact'}</h4>
+
+      <div ref={threadRef} className="max-h-[32rem] overflow-y-auto space-y-4 mb-6 pr-2">
+        {messages.length === 0 && !pending && (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(s => (
+              <button
+                key={s}
+                onClick={() => ask(s)}
+                disabled={locked}
+                className="px-4 py-2 rounded-full border border-white/10 bg-white/5 text-[11px] text-stone-400 hover:text-white hover:border-[#d4af37]/40 transition-colors disabled:opacity-30"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map((message, index) => message.role === 'user' ? (
+          <div key={index} className="flex justify-end">
+            <p className="max-w-[80%] px-5 py-3 rounded-2xl rounded-br-sm bg-[#d4af37]/15 border border-[#d4af37]/20 text-sm text-stone-200">{message.text}</p>
+          </div>
+        ) : (
+          <div key={index} className="max-w-[90%] space-y-3">
+            <p className="px-5 py-3 rounded-2xl rounded-bl-sm bg-white/5 border border-white/5 text-sm text-stone-300 leading-relaxed">
+              {withCitations(message.text, sources)}
+            </p>
+
+            {message.refinements?.map((refinement, r) => (
+              <div key={r} className="ml-4 p-4 rounded-2xl border border-sky-400/20 bg-sky-500/5">
+                <div className="flex items-center justify-between gap-4 mb-1">
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-sky-300">Suggested change · {refinement.field}</span>
+                  <button
+                    onClick={() => onApplyRefinement(index, r)}
+                    disabled={locked || refinement.applied}
+                    className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-[#d4af37]"
+                  >
+                    {refinement.applied ? <><i className="fas fa-check mr-2"></i>Applied</> : 'Apply'}
+                  </button>
+                </div>
+                <p className="text-xs text-stone-200 mb-1">{refinement.value}</p>
+                <p className="text-[11px] text-stone-500 italic">{refinement.reason}</p>
+              </div>
+            ))}
+
+            {message.renderPrompt && (
+              <div className="ml-4 p-4 rounded-2xl border border-[#d4af37]/20 bg-[#d4af37]/5 flex items-center justify-between gap-4">
+                <p className="text-[11px] text-stone-400 font-mono line-clamp-2">{message.renderPrompt}</p>
+                <button
+                  onClick={() => onRender(index)}
+                  disabled={locked}
+                  className="shrink-0 text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30"
+                >
+                  <i className="fas fa-wand-magic-sparkles mr-2"></i>{message.rendered ? 'Render Again' : `Re-render ${labels.reconstructed}`}
+                </button>
+              </div>
+            )}
+
+            {message.sources && message.sources.length > 0 && (
+              <div className="ml-4 flex flex-wrap gap-2">
+                {message.sources.map((source, s) => (
+                  <a
+                    key={s}
+                    href={source.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-1 rounded-full bg-white/5 border border-white/5 text-[10px] text-stone-500 hover:text-white hover:border-[#d4af37]/40 transition-colors truncate max-w-[16rem]"
+                  >
+                    <i className="fas fa-search mr-2"></i>{source.title}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {pending && (
+          <p className="text-[10px] text-stone-500 uppercase tracking-widest font-mono">
+            <i className="fas fa-circle-notch fa-spin mr-2"></i>Consulting the evidence...
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-4">{error}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(question);
+        }}
+        className="flex gap-3"
+      >
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a follow-up question"
+          className="flex-1 bg-white/5 border border-white/10 rounded-full px-5 py-3 text-stone-300 placeholder:text-stone-600 focus:outline-none focus:border-[#d4af37]/50 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={pending || locked || !question.trim()}
+          className="px-6 py-3 rounded-full bg-[#d4af37] text-black text-[10px] font-bold uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+        >
+          <i className="fas fa-paper-plane mr-2"></i>Ask
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default ArtifactChat;
@@ -0,0 +1,125 @@
+
+import React, { useState } from 'react';
+import { GeneratedAsset, ReconstructionData } from '../types';
+import { ModeLabels } from '../constants';
+import { GENERATED_ASSETS, RegenerateOptions } from '../services/reconstructionPipeline';
+
+interface AssetStudioProps {
+  data: ReconstructionData;
+  labels: ModeLabels;
+  /** Asset currently being regenerated, if any. */
+  busy: GeneratedAsset | null;
+  /** True while the initial scan is still producing assets. */
+  generating: boolean;
+  onRegenerate: (asset: GeneratedAsset, options: RegenerateOptions) => void;
+}
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const AssetStudio: React.FC<AssetStudioProps> = ({ data, labels, busy, generating, onRegenerate }) => {
+  const [editing, setEditing] = useState<GeneratedAsset | null>(null);
+  const [draftPrompt, setDraftPrompt] = useState('');
+
+  const titles: Record<GeneratedAsset, string> = {
+    pastImage: labels.reconstructed,
+    presentImage: labels.restored,
+    audioBlob: 'Curator Narration',
+  };
+
+  const promptFor = (asset: GeneratedAsset) =>
+    asset === 'pastImage' ? data.analysis?.pastReconstruction.visualPrompt : asset === 'presentImage' ? data.analysis?.modernRestoration.visualPrompt : undefined;
+
+  const startEditing = (asset: GeneratedAsset) => {
+    setEditing(asset);
+    setDraftPrompt(promptFor(asset) ?? '');
+  };
+
+  const locked = generating || busy !== null;
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 border-white/5">
+      <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500 mb-8">Generated Assets</h4>
+      <div className="space-y-6">
+        {GENERATED_ASSETS.map(asset => {
+          const value = data[asset];
+          const error = data.assetErrors?.[asset];
+          const isImage = asset !== 'audioBlob';
+          const pending = busy === asset || (generating && !value && !error);
+          const seed = isImage ? data.assetSeeds?.[asset] : undefined;
+
+          return (
+            <div key={asset} className="flex gap-6">
+              <div className={`relative w-24 h-24 shrink-0 rounded-2xl overflow-hidden border flex items-center justify-center ${error ? 'border-red-500/40 bg-red-500/10' : 'border-white/10 bg-white/5'}`}>
+                {isImage && value && <img src={value} alt={titles[asset]} className={`w-full h-full object-cover ${pending ? 'opacity-30' : ''}`} />}
+                {!isImage && value && !pending && <i className="fas fa-wave-square text-2xl text-[#d4af37]"></i>}
+                {pending ? (
+                  <i className="fas fa-circle-notch fa-spin text-stone-400 absolute"></i>
+                ) : error && !value && (
+                  <i className="fas fa-triangle-exclamation text-red-400 text-xl"></i>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-bold text-white">{titles[asset]}</span>
+                  {seed !== undefined && <span className="text-[10px] font-mono text-stone-600">seed {seed}</span>}
+                </div>
+                {error ? (
+                  <p className="text-xs text-red-400 mb-3">{value ? 'Last regeneration failed: ' : 'Generation failed: '}{error}</p>
+                ) : (
+                  <p className="text-xs text-stone-500 mb-3">{pending ? 'Generating...' : value ? 'Ready' : 'Not generated'}</p>
+                )}
+                <div className="flex flex-wrap gap-4">
+                  <button
+                    onClick={() => onRegenerate(asset, isImage ? { seed: randomSeed() } : {})}
+                    disabled={locked || !data.analysis}
+                    className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30"
+                  >
+                    <i className="fas fa-rotate mr-2"></i>{isImage ? 'Regenerate · New Seed' : 'Regenerate'}
+                  </button>
+                  {isImage && (
+                    <button
+                      onClick={() => (editing === asset ? setEditing(null) : startEditing(asset))}
+                      disabled={locked}
+                      className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors disabled:opacity-30"
+                    >
+                      <i className="fas fa-pen mr-2"></i>Edit Prompt
+                    </button>
+                  )}
+                </div>
+
+                {editing === asset && (
+                  <div className="mt-4 space-y-3">
+                    <textarea
+                      value={draftPrompt}
+                      onChange={(e) => setDraftPrompt(e.target.value)}
+                      rows={4}
+                      className="w-full bg-black/40 border border-white/10 rounded-2xl p-4 text-stone-300 text-xs font-mono focus:outline-none focus:border-[#d4af37]/50 resize-none"
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => {
+                          onRegenerate(asset, { prompt: draftPrompt.trim(), seed: seed ?? randomSeed() });
+                          setEditing(null);
+                        }}
+                        disabled={locked || !draftPrompt.trim()}
+                        className="px-5 py-2 rounded-full bg-[#d4af37] text-black text-[10px] font-bold uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+                      >
+                        Render Edited Prompt
+                      </button>
+                      <button onClick={() => setEditing(null)} className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default AssetStudio;
@@ -0,0 +1,75 @@
+
+import React, { useState } from 'react';
+import { NarrativeAudience, ReconstructionData } from '../types';
+import { NARRATIVE_AUDIENCES, narrativeFor } from '../services/narratives';
+
+interface AudienceNarrativesProps {
+  data: ReconstructionData;
+  /** Audience whose narrative is being written, if any. */
+  pending: NarrativeAudience | null;
+  locked: boolean;
+  onWrite: (audience: Exclude<NarrativeAudience, 'tour'>) => Promise<void>;
+  onListen: (audience: NarrativeAudience) => Promise<void>;
+}
+
+const AudienceNarratives: React.FC<AudienceNarrativesProps> = ({ data, pending, locked, onWrite, onListen }) => {
+  const [audience, setAudience] = useState<NarrativeAudience>(data.narration?.audience ?? 'tour');
+  const [error, setError] = useState<string | null>(null);
+  const text = narrativeFor(data, audience);
+  const current = NARRATIVE_AUDIENCES.find(a => a.id === audience)!;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'The narrative could not be written.');
+    }
+  };
+
+  return (
+    <div className="p-6 bg-[#d4af37]/5 rounded-3xl border border-[#d4af37]/10">
+      <div className="flex items-center gap-3 mb-4">
+        <i className={`fas ${current.icon} text-[#d4af37] text-sm`}></i>
+        <span className="text-[10px] font-bold uppercase tracking-widest text-white">Fact-Checked Guide</span>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {NARRATIVE_AUDIENCES.map(a => (
+          <button
+            key={a.id}
+            onClick={() => { setAudience(a.id); setError(null); }}
+            className={`px-3 py-1 rounded-full border text-[9px] font-bold uppercase tracking-widest transition-colors ${audience === a.id ? 'border-[#d4af37]/50 text-[#d4af37]' : 'border-white/10 text-stone-500 hover:text-white'}`}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      {text ? (
+        <p className="text-xs text-stone-400 leading-relaxed italic font-serif mb-4">"{text}"</p>
+      ) : pending === audience ? (
+        <p className="text-xs text-stone-500 mb-4"><i className="fas fa-circle-notch fa-spin mr-2"></i>Writing...</p>
+      ) : (
+        <button
+          onClick={() => audience !== 'tour' && run(() => onWrite(audience))}
+          disabled={locked}
+          className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30 mb-4 block"
+        >
+          <i className="fas fa-pen-nib mr-2"></i>Write {current.label} Version
+        </button>
+      )}
+
+      <button
+        onClick={() => run(() => onListen(audience))}
+        disabled={locked}
+        className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors disabled:opacity-30"
+      >
+        <i className="fas fa-headphones mr-2"></i>Listen
+      </button>
+      {error && <p className="text-[10px] text-red-400 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default AudienceNarratives;
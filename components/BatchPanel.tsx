@@ -0,0 +1,266 @@
+
+import React, { useState, useRef } from 'react';
+import { ArtifactMode, BatchItem, CaseRecord } from '../types';
+import { MODE_LABELS } from '../constants';
+import { filesToViews } from '../services/imageFiles';
+import { runReconstruction } from '../services/reconstructionPipeline';
+import { runWithConcurrency } from '../services/batchQueue';
+import { saveCase } from '../services/caseLibrary';
+
+interface BatchPanelProps {
+  mode: ArtifactMode;
+  onOpen: (record: CaseRecord) => void;
+  onClose: () => void;
+}
+
+const STAGE_PROGRESS = { analyzing: 15, generating: 55 };
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'text-stone-500',
+  analyzing: 'text-[#d4af37]',
+  generating: 'text-[#d4af37]',
+  complete: 'text-emerald-400',
+  error: 'text-red-400',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ mode, onOpen, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [context, setContext] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [running, setRunning] = useState(false);
+  // Files from the last drop that could not be read; the rest of that drop is still queued.
+  const [unreadable, setUnreadable] = useState<string[]>([]);
+  const pausedRef = useRef(false);
+  // The list the running queue draws from; items pushed onto it are picked up by the same lanes.
+  const queueRef = useRef<BatchItem[] | null>(null);
+  // Ids in the running queue that no lane has started yet.
+  const waitingRef = useRef(new Set<string>());
+  const labels = MODE_LABELS[mode];
+
+  const update = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const addFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || [])
+      .filter(f => f.type.startsWith('image/'))
+      .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+    const stamp = Date.now();
+    const failed: string[] = [];
+    const added = await Promise.all(files.map(async (file, i): Promise<BatchItem[]> => {
+      const fileName = file.webkitRelativePath || file.name;
+      try {
+        return [{ id: `${stamp}-${i}`, fileName, views: await filesToViews([file]), status: 'queued', progress: 0 }];
+      } catch (err) {
+        console.error(`Could not read ${fileName}`, err);
+        failed.push(fileName);
+        return [];
+      }
+    }));
+    setUnreadable(failed);
+    setItems(prev => [...prev, ...added.flat()]);
+  };
+
+  const processItem = async (item: BatchItem) => {
+    waitingRef.current.delete(item.id);
+    update(item.id, { status: 'analyzing', progress: STAGE_PROGRESS.analyzing, error: undefined });
+    try {
+      const result = await runReconstruction(item.views, context, mode, stage =>
+        update(item.id, { status: stage, progress: STAGE_PROGRESS[stage] })
+      );
+      let record: CaseRecord;
+      try {
+        record = await saveCase(result, context);
+      } catch (archiveErr) {
+        console.error('Case library save failed', archiveErr);
+        record = { id: item.id, createdAt: Date.now(), context, data: result };
+      }
+      // Failed assets don't fail the item; they can be regenerated once the case is opened.
+      const failedAssets = Object.keys(result.assetErrors ?? {}).length;
+      update(item.id, { status: 'complete', progress: 100, record, error: failedAssets ? `${failedAssets} asset(s) failed; open to regenerate.` : undefined });
+    } catch (err: any) {
+      update(item.id, { status: 'error', progress: 0, error: err.message || 'Reconstruction failed.' });
+    }
+  };
+
+  // Picks up everything not yet complete, so the same action starts, resumes after a pause, and retries failures.
+  const run = async (pending = items.filter(item => item.status === 'queued' || item.status === 'error')) => {
+    if (pending.length === 0) return;
+    pausedRef.current = false;
+    queueRef.current = pending;
+    waitingRef.current = new Set(pending.map(item => item.id));
+    setRunning(true);
+    await runWithConcurrency(pending, concurrency, processItem, { isPaused: () => pausedRef.current });
+    queueRef.current = null;
+    setRunning(false);
+  };
+
+  // A retried item waits its turn in the running queue rather than starting beside it. One the queue
+  // has not reached yet is already waiting, so it is not added a second time.
+  const retry = (item: BatchItem) => {
+    update(item.id, { status: 'queued', progress: 0, error: undefined });
+    if (!queueRef.current) {
+      run([item]);
+    } else if (!waitingRef.current.has(item.id)) {
+      waitingRef.current.add(item.id);
+      queueRef.current.push(item);
+    }
+  };
+
+  const pause = () => {
+    pausedRef.current = true;
+  };
+
+  const remove = (id: string) => setItems(prev => prev.filter(item => item.id !== id));
+
+  const counts = {
+    complete: items.filter(i => i.status === 'complete').length,
+    error: items.filter(i => i.status === 'error').length,
+    pending: items.filter(i => i.status === 'queued').length,
+  };
+  const overall = items.length ? Math.round(items.reduce((sum, i) => sum + i.progress, 0) / items.length) : 0;
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
+        <div>
+          <h2 className="text-5xl font-serif italic mb-2">Batch Processing</h2>
+          <p className="text-[10px] uppercase tracking-[0.3em] text-stone-500 font-bold">
+            {labels.title} mode · {counts.complete} complete · {counts.error} failed · {counts.pending} queued
+          </p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 mb-12">
+        <div
+          className="lg:col-span-5 glass-card rounded-[2.5rem] border-2 border-dashed border-white/5 hover:border-[#d4af37]/30 transition-all p-8 flex flex-col items-center justify-center text-center"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+        >
+          <i className="fas fa-folder-open text-3xl text-[#d4af37] mb-4"></i>
+          <span className="text-sm font-bold uppercase tracking-widest text-stone-300 mb-6">Drop a tray of photos</span>
+          <div className="flex gap-3">
+            <label className="px-5 py-2 rounded-full border border-white/10 bg-white/5 text-[10px] font-bold uppercase tracking-widest text-stone-300 hover:text-white cursor-pointer">
+              <input type="file" className="hidden" multiple {...{ webkitdirectory: '' }} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+              Choose Folder
+            </label>
+            <label className="px-5 py-2 rounded-full border border-white/10 bg-white/5 text-[10px] font-bold uppercase tracking-widest text-stone-300 hover:text-white cursor-pointer">
+              <input type="file" className="hidden" multiple accept="image/*" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+              Choose Files
+            </label>
+          </div>
+          {unreadable.length > 0 && (
+            <p className="mt-6 text-[10px] text-red-400">
+              <i className="fas fa-triangle-exclamation mr-2"></i>
+              Could not read {unreadable.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="lg:col-span-7 glass-card rounded-[2.5rem] p-8 border-white/5 space-y-6">
+          <textarea
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+            placeholder="OPTIONAL: Shared context for every item (e.g. 'Trench B, layer 4, Roman villa')"
+            className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-stone-300 placeholder:text-stone-600 focus:outline-none focus:border-[#d4af37]/50 resize-none h-20 text-sm font-mono"
+          />
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-3 text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+              Concurrency
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={running}
+                className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-stone-300 focus:outline-none"
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden min-w-[8rem]">
+              <div className="h-full bg-[#d4af37] transition-all" style={{ width: `${overall}%` }}></div>
+            </div>
+            {running ? (
+              <button onClick={pause} className="px-6 py-2 rounded-full border border-white/10 text-xs font-bold uppercase tracking-widest text-stone-300 hover:bg-white/5">
+                <i className="fas fa-pause mr-2"></i>Pause
+              </button>
+            ) : (
+              <button
+                onClick={() => run()}
+                disabled={counts.pending + counts.error === 0}
+                className="px-6 py-2 rounded-full bg-[#d4af37] text-black text-xs font-bold uppercase tracking-widest disabled:opacity-30 hover:scale-105 transition-transform"
+              >
+                <i className="fas fa-play mr-2"></i>{counts.complete + counts.error > 0 ? 'Resume' : 'Start'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="glass-card rounded-[2.5rem] p-8 border-white/5 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-widest text-stone-600 border-b border-white/5">
+                <th className="pb-4 pr-4"></th>
+                <th className="pb-4 pr-4">File</th>
+                <th className="pb-4 pr-4">Status</th>
+                <th className="pb-4 pr-4">{labels.objectClass}</th>
+                <th className="pb-4 pr-4">{labels.origin}</th>
+                <th className="pb-4 pr-4">{labels.period}</th>
+                <th className="pb-4 pr-4">Confidence</th>
+                <th className="pb-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => {
+                const analysis = item.record?.data.analysis;
+                return (
+                  <tr key={item.id} className="border-b border-white/5 last:border-0">
+                    <td className="py-3 pr-4">
+                      <img src={item.views[0].image} alt={item.fileName} className="w-12 h-12 rounded-xl object-cover" />
+                    </td>
+                    <td className="py-3 pr-4 font-mono text-stone-400 max-w-[12rem] truncate" title={item.fileName}>{item.fileName}</td>
+                    <td className="py-3 pr-4 w-40">
+                      <span className={`text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[item.status]}`} title={item.error}>
+                        {item.status}
+                      </span>
+                      <div className="h-0.5 bg-white/5 rounded-full mt-1.5 overflow-hidden">
+                        <div className={`h-full transition-all ${item.status === 'error' ? 'bg-red-400' : 'bg-[#d4af37]'}`} style={{ width: `${item.progress}%` }}></div>
+                      </div>
+                      {item.error && <span className="text-[10px] text-red-300/70 block mt-1 truncate max-w-[10rem]">{item.error}</span>}
+                    </td>
+                    <td className="py-3 pr-4 text-white">{analysis?.identification.type ?? '—'}</td>
+                    <td className="py-3 pr-4 text-stone-300">{analysis?.identification.civilization ?? '—'}</td>
+                    <td className="py-3 pr-4 text-stone-400">{analysis?.identification.era ?? '—'}</td>
+                    <td className="py-3 pr-4 font-bold text-[#d4af37]">{analysis ? `${analysis.confidenceScore}%` : '—'}</td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      {item.record && (
+                        <button onClick={() => onOpen(item.record!)} className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white mr-4">
+                          Open
+                        </button>
+                      )}
+                      {item.status === 'error' && (
+                        <button onClick={() => retry(item)} className="text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-white mr-4">
+                          Retry
+                        </button>
+                      )}
+                      {!running && item.status !== 'analyzing' && item.status !== 'generating' && (
+                        <button onClick={() => remove(item.id)} className="text-stone-600 hover:text-red-400">
+                          <i className="fas fa-times"></i>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,164 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { measureSharpness, SHARPNESS_THRESHOLD } from '../services/imageQuality';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type Facing = 'environment' | 'user';
+
+const SAMPLE_SIZE = 160;
+const SAMPLE_INTERVAL = 400;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [sharpness, setSharpness] = useState(0);
+  const [showGrid, setShowGrid] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera access is not supported in this browser.');
+        return;
+      }
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1920 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        setError(null);
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => { });
+        }
+      } catch (err: any) {
+        setError(err?.name === 'NotAllowedError' ? 'Camera permission was denied.' : 'Could not start the camera.');
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+    };
+  }, [facing]);
+
+  // Sample a downscaled frame a few times a second to drive the focus indicator.
+  useEffect(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!ctx || !video || video.readyState < 2) return;
+      ctx.drawImage(video, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+      setSharpness(measureSharpness(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)));
+    }, SAMPLE_INTERVAL);
+
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const isSharp = sharpness >= SHARPNESS_THRESHOLD;
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    if (!isSharp && !window.confirm('The frame looks out of focus. Capture anyway?')) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black flex flex-col animate-in fade-in duration-300">
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`absolute inset-0 w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''}`}
+        />
+
+        {showGrid && (
+          <div className="absolute inset-0 pointer-events-none">
+            <div className="absolute inset-0 grid grid-cols-3 grid-rows-3">
+              {Array.from({ length: 9 }).map((_, i) => (
+                <div key={i} className="border border-white/15"></div>
+              ))}
+            </div>
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-2/3 aspect-square border-2 border-[#d4af37]/60 rounded-3xl"></div>
+            <div className="absolute bottom-36 left-1/2 -translate-x-1/2 flex flex-col items-center">
+              <div className="flex h-3 w-40 border border-white/70">
+                {Array.from({ length: 10 }).map((_, i) => (
+                  <div key={i} className={`flex-1 ${i % 2 === 0 ? 'bg-white/80' : 'bg-black/60'}`}></div>
+                ))}
+              </div>
+              <span className="text-[10px] font-mono uppercase tracking-widest text-white/80 mt-1">Place scale bar in frame</span>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-8 text-center">
+            <p className="text-stone-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="absolute top-6 left-6 right-6 flex justify-between items-center">
+          <span className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border backdrop-blur-md ${isSharp ? 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300' : 'bg-red-500/20 border-red-400/40 text-red-300'}`}>
+            <i className={`fas ${isSharp ? 'fa-circle-check' : 'fa-triangle-exclamation'} mr-2`}></i>
+            {isSharp ? 'In Focus' : 'Hold Steady'}
+          </span>
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-black/50 border border-white/10 text-white hover:bg-white/10 transition-colors">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="h-32 bg-[#050505] border-t border-white/5 flex items-center justify-around px-8">
+        <button
+          onClick={() => setShowGrid(!showGrid)}
+          className={`text-xs font-bold uppercase tracking-widest transition-colors ${showGrid ? 'text-[#d4af37]' : 'text-stone-500 hover:text-white'}`}
+        >
+          <i className="fas fa-border-all mr-2"></i>Guides
+        </button>
+        <button
+          onClick={capture}
+          disabled={!!error}
+          className="w-20 h-20 rounded-full border-4 border-[#d4af37] bg-white/10 hover:bg-[#d4af37]/30 disabled:opacity-30 transition-all flex items-center justify-center"
+        >
+          <i className="fas fa-camera text-2xl text-[#d4af37]"></i>
+        </button>
+        <button
+          onClick={() => setFacing(facing === 'environment' ? 'user' : 'environment')}
+          className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors"
+        >
+          <i className="fas fa-camera-rotate mr-2"></i>Flip
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,127 @@
+
+import React, { useState, useEffect } from 'react';
+import { CaseRecord } from '../types';
+import { listCases, deleteCase, filterCases, importCases } from '../services/caseLibrary';
+import { parseNativeJson } from '../services/collectionExport';
+import ExportMenu from './ExportMenu';
+
+interface CaseLibraryProps {
+  onOpen: (record: CaseRecord) => void;
+  onClose: () => void;
+}
+
+const CaseLibrary: React.FC<CaseLibraryProps> = ({ onOpen, onClose }) => {
+  const [records, setRecords] = useState<CaseRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listCases()
+      .then(setRecords)
+      .catch((err: any) => setError(err.message || 'Could not open the case library.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleDelete = async (record: CaseRecord) => {
+    const name = record.data.analysis?.identification.type || 'this case';
+    if (!window.confirm(`Delete ${name} from the library?`)) return;
+    try {
+      await deleteCase(record.id);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+    } catch (err: any) {
+      setError(err.message || 'Could not delete the case.');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseNativeJson(await file.text());
+      await importCases(imported);
+      setRecords(await listCases());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    }
+  };
+
+  const visible = filterCases(records, query);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
+        <div>
+          <h2 className="text-5xl font-serif italic mb-2">Case Library</h2>
+          <p className="text-[10px] uppercase tracking-[0.3em] text-stone-500 font-bold">{records.length} archived reconstructions</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search civilization, era, material"
+            className="w-72 bg-white/5 border border-white/10 rounded-full px-5 py-2.5 text-stone-300 placeholder:text-stone-600 focus:outline-none focus:border-[#d4af37]/50 text-xs font-mono"
+          />
+          <label className="flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all bg-white/5 border-white/10 text-white hover:bg-white/10 cursor-pointer">
+            <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+            <i className="fas fa-file-import"></i>
+            Import
+          </label>
+          <ExportMenu records={visible} baseName={`case-library-${new Date().toISOString().slice(0, 10)}`} label={`Export ${visible.length}`} />
+          <button onClick={onClose} className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-8">{error}</p>}
+
+      {loading ? (
+        <p className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Loading archive...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-xs text-stone-600 italic">
+          {records.length === 0 ? 'No reconstructions archived yet. Completed scans are saved here automatically.' : 'No cases match this search.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+          {visible.map(record => {
+            const id = record.data.analysis?.identification;
+            return (
+              <div key={record.id} className="glass-card rounded-[2rem] overflow-hidden border-white/5 group">
+                <button onClick={() => onOpen(record)} className="block w-full text-left">
+                  <div className="aspect-square bg-stone-950 overflow-hidden">
+                    {(record.data.pastImage || record.data.originalImage) && (
+                      <img
+                        src={record.data.pastImage || record.data.originalImage || ''}
+                        alt={id?.type || 'Reconstruction'}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700"
+                      />
+                    )}
+                  </div>
+                  <div className="p-6">
+                    <span className="text-[10px] text-[#d4af37] uppercase tracking-widest font-bold block mb-1">{id?.civilization}</span>
+                    <span className="text-lg font-serif text-white leading-tight block mb-2">{id?.type}</span>
+                    <span className="text-[10px] text-stone-500 uppercase block">{id?.era} · {id?.material}</span>
+                    <span className="text-[10px] text-stone-600 font-mono block mt-3">{new Date(record.createdAt).toLocaleString()}</span>
+                  </div>
+                </button>
+                <div className="px-6 pb-6">
+                  <button
+                    onClick={() => handleDelete(record)}
+                    className="text-[10px] font-bold uppercase tracking-widest text-stone-600 hover:text-red-400 transition-colors"
+                  >
+                    <i className="fas fa-trash mr-2"></i>Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaseLibrary;
@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { ArtifactAnalysis } from '../types';
+import { citationNumbers } from '../services/citations';
+
+interface CitationMarksProps {
+  analysis: ArtifactAnalysis;
+  /** Dotted path into the analysis, e.g. "identification.era" or "timeline.2". */
+  field: string;
+  /** Curator-entered values are not the model's claim, so they are neither cited nor flagged. */
+  curated?: boolean;
+}
+
+// Footnote markers linking a claim to the numbered Grounding Sources, or an "unverified" badge when
+// the search grounding backed the analysis but not this claim.
+const CitationMarks: React.FC<CitationMarksProps> = ({ analysis, field, curated }) => {
+  const numbers = citationNumbers(analysis, field);
+  if (!numbers || curated) return null;
+
+  if (!numbers.length) {
+    return (
+      <span className="ml-2 align-middle text-[8px] font-bold uppercase tracking-widest text-amber-400/80 border border-amber-400/30 rounded px-1.5 py-0.5" title="No search result backed this claim">
+        Unverified
+      </span>
+    );
+  }
+
+  return (
+    <sup className="ml-0.5 text-[9px] font-mono">
+      {numbers.map(n => (
+        <a
+          key={n}
+          href={analysis.sources[n - 1]?.uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={analysis.sources[n - 1]?.title}
+          className="text-[#d4af37] hover:text-white mr-0.5"
+        >
+          [{n}]
+        </a>
+      ))}
+    </sup>
+  );
+};
+
+export default CitationMarks;
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { ArtifactAnalysis } from '../types';
+import { ModeLabels } from '../constants';
+import { calibratedScore, dimensionLabel } from '../services/confidence';
+
+interface ConfidenceBreakdownProps {
+  analysis: ArtifactAnalysis;
+  labels: ModeLabels;
+}
+
+const barColor = (score: number) => (score >= 70 ? 'bg-emerald-400' : score >= 45 ? 'bg-[#d4af37]' : 'bg-red-400');
+
+// One bar per dimension. With self-consistency the bar is the share of runs that agreed, the model's
+// own score is shown beside it, and answers the other runs gave are listed as the disagreement.
+const ConfidenceBreakdown: React.FC<ConfidenceBreakdownProps> = ({ analysis, labels }) => {
+  const breakdown = analysis.confidenceBreakdown ?? [];
+  const runs = analysis.consistencyRuns;
+
+  return (
+    <div className="space-y-5">
+      {breakdown.map(entry => {
+        const score = calibratedScore(entry);
+        const dissent = entry.answers?.slice(1) ?? [];
+        return (
+          <div key={entry.dimension}>
+            <div className="flex items-baseline justify-between mb-1.5">
+              <span className="text-[10px] text-stone-400 uppercase tracking-widest font-bold">{dimensionLabel(entry.dimension, labels)}</span>
+              <span className="text-[10px] font-mono text-stone-500">
+                {entry.agreement !== undefined && runs ? (
+                  <>
+                    <span className="text-white">{entry.answers?.[0]?.runs ?? 0}/{runs} agree</span>
+                    <span className="ml-2" title="The model's own score">self {entry.score}%</span>
+                  </>
+                ) : (
+                  <span className="text-white">{score}%</span>
+                )}
+              </span>
+            </div>
+            <div className="h-1.5 bg-white/5 rounded-full overflow-hidden mb-2">
+              <div className={`h-full ${barColor(score)}`} style={{ width: `${score}%` }}></div>
+            </div>
+            {entry.evidence && <p className="text-[11px] text-stone-500 leading-relaxed">{entry.evidence}</p>}
+            {dissent.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {dissent.map((answer, i) => (
+                  <li key={i} className="text-[10px] text-amber-300/80 leading-relaxed">
+                    <i className="fas fa-code-branch mr-2"></i>{answer.runs} run{answer.runs === 1 ? '' : 's'}: {answer.value}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ConfidenceBreakdown;
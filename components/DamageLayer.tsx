@@ -0,0 +1,71 @@
+
+import React, { useState } from 'react';
+import { DamageRegion, DamageSeverity, DamageType } from '../types';
+
+interface DamageLayerProps {
+  regions: DamageRegion[];
+}
+
+const TYPE_COLORS: Record<DamageType, string> = {
+  fracture: '#ef4444',
+  erosion: '#f59e0b',
+  loss: '#8b5cf6',
+  discoloration: '#10b981',
+};
+
+const SEVERITY_OPACITY: Record<DamageSeverity, number> = {
+  minor: 0.2,
+  moderate: 0.35,
+  severe: 0.5,
+};
+
+const DamageLayer: React.FC<DamageLayerProps> = ({ regions }) => {
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const presentTypes = (Object.keys(TYPE_COLORS) as DamageType[]).filter(t => regions.some(r => r.type === t));
+  const active = activeId !== null ? regions[activeId] : null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        {regions.map((region, idx) => (
+          <polygon
+            key={idx}
+            points={region.points.map(p => `${p.x},${p.y}`).join(' ')}
+            fill={TYPE_COLORS[region.type]}
+            fillOpacity={activeId === idx ? SEVERITY_OPACITY[region.severity] + 0.2 : SEVERITY_OPACITY[region.severity]}
+            stroke={TYPE_COLORS[region.type]}
+            strokeWidth={0.4}
+            strokeDasharray={region.severity === 'minor' ? '1 1' : undefined}
+            className="pointer-events-auto cursor-pointer transition-all"
+            onClick={() => setActiveId(activeId === idx ? null : idx)}
+          />
+        ))}
+      </svg>
+
+      {active && (
+        <div className="absolute top-4 right-4 w-56 bg-stone-900 text-white p-3 rounded-lg text-xs shadow-2xl z-50 border border-white/10 pointer-events-auto animate-in fade-in zoom-in">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="w-2 h-2 rounded-full" style={{ background: TYPE_COLORS[active.type] }}></span>
+            <span className="font-bold uppercase tracking-tighter" style={{ color: TYPE_COLORS[active.type] }}>{active.type}</span>
+            <span className="ml-auto text-[10px] uppercase text-stone-500">{active.severity}</span>
+          </div>
+          <p className="opacity-80 leading-tight">{active.label || 'Unlabelled region'}</p>
+        </div>
+      )}
+
+      {presentTypes.length > 0 && (
+        <div className="absolute bottom-4 left-4 z-30 bg-black/50 backdrop-blur-md rounded-xl p-3 border border-white/10 space-y-1.5">
+          {presentTypes.map(type => (
+            <div key={type} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ background: TYPE_COLORS[type], opacity: 0.7 }}></span>
+              <span className="text-[10px] uppercase tracking-widest text-stone-300 font-bold">{type}</span>
+            </div>
+          ))}
+          <div className="text-[9px] uppercase tracking-widest text-stone-500 pt-1 border-t border-white/10">Opacity = severity</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DamageLayer;
@@ -0,0 +1,46 @@
+
+import React, { useState } from 'react';
+import { CaseRecord } from '../types';
+import { EXPORT_FORMATS, exportRecords } from '../services/collectionExport';
+
+interface ExportMenuProps {
+  records: CaseRecord[];
+  baseName: string;
+  label?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ records, baseName, label = 'Export' }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={records.length === 0}
+        className="flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all bg-white/5 border-white/10 text-white hover:bg-white/10 disabled:opacity-30"
+      >
+        <i className="fas fa-file-export"></i>
+        {label}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-12 z-50 w-64 bg-stone-900 border border-white/10 rounded-2xl shadow-2xl p-2 animate-in fade-in zoom-in">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => {
+                exportRecords(format.id, records, baseName);
+                setOpen(false);
+              }}
+              className="w-full text-left px-4 py-2.5 rounded-xl text-xs text-stone-300 hover:bg-white/5 hover:text-white transition-colors flex justify-between"
+            >
+              {format.label}
+              <span className="font-mono text-stone-600">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,32 @@
+
+import React from 'react';
+import { ReconstructionData } from '../types';
+import { ModeLabels } from '../constants';
+
+interface GenerationProgressProps {
+  data: ReconstructionData;
+  labels: ModeLabels;
+}
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ data, labels }) => {
+  const assets = [
+    { label: labels.reconstructed, ready: !!data.pastImage, failed: !!data.assetErrors?.pastImage },
+    { label: labels.restored, ready: !!data.presentImage, failed: !!data.assetErrors?.presentImage },
+    { label: 'Narration', ready: !!data.audioBlob, failed: !!data.assetErrors?.audioBlob },
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-3 mb-6">
+      {assets.map(asset => (
+        <span
+          key={asset.label}
+          className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${asset.failed ? 'border-red-500/30 text-red-400' : asset.ready ? 'border-[#d4af37]/30 text-[#d4af37]' : 'border-white/10 text-stone-500'}`}
+        >
+          <i className={`fas ${asset.failed ? 'fa-xmark' : asset.ready ? 'fa-check' : 'fa-circle-notch fa-spin'} mr-2`}></i>{asset.label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default GenerationProgress;
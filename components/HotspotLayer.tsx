@@ -1,38 +1,127 @@
-
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Hotspot } from '../types';
 
 interface HotspotLayerProps {
   hotspots: Hotspot[];
+  /** Only markers recorded against this view index are shown. */
+  view?: number;
+  /** Curator mode: markers can be dragged or rejected, and clicking empty space adds one. */
+  editable?: boolean;
+  onMove?: (index: number, x: number, y: number) => void;
+  onToggleRejected?: (index: number) => void;
+  onAdd?: (x: number, y: number) => void;
+}
+
+interface Drag {
+  index: number;
+  x: number;
+  y: number;
+  moved: boolean;
 }
 
-const HotspotLayer: React.FC<HotspotLayerProps> = ({ hotspots }) => {
+const HotspotLayer: React.FC<HotspotLayerProps> = ({ hotspots, view = 0, editable = false, onMove, onToggleRejected, onAdd }) => {
   const [activeId, setActiveId] = useState<number | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  // The click that ends a drag should not also open the marker.
+  const draggedRef = useRef(false);
+
+  // Pointer position in the same 0-100 space the hotspots are stored in.
+  const toPercent = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, index: number, spot: Hotspot) => {
+    if (!editable) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ index, x: spot.x, y: spot.y, moved: false });
+  };
+
+  const updateDrag = (e: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, ...toPercent(e), moved: true });
+  };
+
+  const endDrag = () => {
+    if (drag?.moved) {
+      draggedRef.current = true;
+      onMove?.(drag.index, drag.x, drag.y);
+    }
+    setDrag(null);
+  };
+
+  const handleLayerClick = (e: React.MouseEvent) => {
+    if (!editable || e.target !== layerRef.current) return;
+    setActiveId(null);
+    const { x, y } = toPercent(e);
+    onAdd?.(x, y);
+  };
 
   return (
-    <div className="absolute inset-0 pointer-events-none">
-      {hotspots.map((spot, idx) => (
-        <div 
-          key={idx}
-          className="absolute pointer-events-auto"
-          style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
-        >
-          <button 
-            onClick={() => setActiveId(activeId === idx ? null : idx)}
-            className="w-6 h-6 -translate-x-1/2 -translate-y-1/2 bg-[#d4af37] rounded-full border-2 border-white shadow-lg flex items-center justify-center animate-pulse hover:scale-125 transition-transform"
+    <div
+      ref={layerRef}
+      onClick={handleLayerClick}
+      className={`absolute inset-0 ${editable ? 'pointer-events-auto cursor-crosshair' : 'pointer-events-none'}`}
+    >
+      {hotspots.map((spot, idx) => {
+        if ((spot.view ?? 0) !== view || (spot.rejected && !editable)) return null;
+        const position = drag?.index === idx ? drag : spot;
+        return (
+          <div
+            key={idx}
+            className="absolute pointer-events-auto"
+            style={{ left: `${position.x}%`, top: `${position.y}%` }}
           >
-            <i className="fas fa-microscope text-[10px] text-stone-900"></i>
-          </button>
-          
-          {activeId === idx && (
-            <div className="absolute top-8 left-1/2 -translate-x-1/2 w-48 bg-stone-900 text-white p-3 rounded-lg text-xs shadow-2xl z-50 border border-[#d4af37]/30 animate-in fade-in zoom-in">
-              <div className="font-bold text-[#d4af37] mb-1 uppercase tracking-tighter">{spot.label}</div>
-              <p className="opacity-80 leading-tight">{spot.detail}</p>
-              <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-stone-900 rotate-45 border-l border-t border-[#d4af37]/30"></div>
-            </div>
-          )}
-        </div>
-      ))}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (draggedRef.current) {
+                  draggedRef.current = false;
+                  return;
+                }
+                setActiveId(activeId === idx ? null : idx);
+              }}
+              onPointerDown={(e) => startDrag(e, idx, spot)}
+              onPointerMove={updateDrag}
+              onPointerUp={endDrag}
+              className={`w-6 h-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 shadow-lg flex items-center justify-center transition-transform ${
+                spot.rejected
+                  ? 'bg-stone-700 border-stone-500 opacity-60'
+                  : spot.curated
+                    ? 'bg-sky-400 border-white'
+                    : 'bg-[#d4af37] border-white'
+              } ${editable ? 'cursor-grab active:cursor-grabbing touch-none' : 'animate-pulse hover:scale-125'}`}
+            >
+              <i className={`fas ${spot.rejected ? 'fa-ban' : spot.curated ? 'fa-user-pen' : 'fa-microscope'} text-[10px] text-stone-900`}></i>
+            </button>
+
+            {activeId === idx && !drag && (
+              <div className="absolute top-8 left-1/2 -translate-x-1/2 w-48 bg-stone-900 text-white p-3 rounded-lg text-xs shadow-2xl z-50 border border-[#d4af37]/30 animate-in fade-in zoom-in">
+                <div className={`font-bold text-[#d4af37] mb-1 uppercase tracking-tighter ${spot.rejected ? 'line-through opacity-60' : ''}`}>{spot.label}</div>
+                <p className="opacity-80 leading-tight">{spot.detail}</p>
+                {editable && (
+                  <div className="mt-3 pt-2 border-t border-white/10 flex items-center justify-between">
+                    <span className="text-[9px] uppercase tracking-widest text-stone-500">{spot.curated ? 'Curator' : 'AI'}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleRejected?.(idx);
+                      }}
+                      className={`text-[9px] font-bold uppercase tracking-widest transition-colors ${spot.rejected ? 'text-[#d4af37] hover:text-white' : 'text-red-400 hover:text-red-300'}`}
+                    >
+                      {spot.rejected ? 'Restore' : 'Reject'}
+                    </button>
+                  </div>
+                )}
+                <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-stone-900 rotate-45 border-l border-t border-[#d4af37]/30"></div>
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 };
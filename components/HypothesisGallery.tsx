@@ -0,0 +1,132 @@
+
+import React, { useState } from 'react';
+import { ReconstructionData } from '../types';
+import { ModeLabels } from '../constants';
+import { hypothesisEntries } from '../services/hypotheses';
+import ComparisonSlider from './ComparisonSlider';
+
+interface HypothesisGalleryProps {
+  data: ReconstructionData;
+  labels: ModeLabels;
+  /** True while renders are still arriving or another change is in flight. */
+  locked: boolean;
+  generating: boolean;
+  /** The current reviewer has already cast their vote on this case. */
+  voted: boolean;
+  onVote: (index: number) => void;
+  onAccept: (index: number) => void;
+  onRetry: (index: number) => void;
+}
+
+const HypothesisGallery: React.FC<HypothesisGalleryProps> = ({ data, labels, locked, generating, voted, onVote, onAccept, onRetry }) => {
+  const [compare, setCompare] = useState<number[]>([]);
+  const entries = hypothesisEntries(data);
+  if (entries.length < 2) return null;
+
+  const toggleCompare = (index: number) =>
+    setCompare(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].slice(-2)));
+
+  const compared = compare.map(i => entries.find(e => e.index === i)).filter(e => e?.image);
+  const title = (index: number) => (index < 0 ? 'Leading' : `Alternative ${index + 1}`);
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 border-white/5">
+      <div className="flex justify-between items-center mb-8">
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500">Competing Hypotheses</h4>
+        <span className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Select two to compare</span>
+      </div>
+
+      {compared.length === 2 && (
+        <div className="relative aspect-[2/1] bg-stone-950 rounded-3xl overflow-hidden border border-white/5 mb-8">
+          <ComparisonSlider
+            key={compare.join('-')}
+            beforeImage={compared[0]!.image!}
+            afterImage={compared[1]!.image!}
+            beforeLabel={`${title(compared[0]!.index)} · ${compared[0]!.hypothesis.identification.type}`}
+            afterLabel={`${title(compared[1]!.index)} · ${compared[1]!.hypothesis.identification.type}`}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+        {entries.map(entry => {
+          const { hypothesis, index } = entry;
+          const selected = compare.includes(index);
+          return (
+            <div key={index} className={`rounded-[2rem] border overflow-hidden flex flex-col ${index < 0 ? 'border-[#d4af37]/40 bg-[#d4af37]/5' : 'border-white/5 bg-white/5'}`}>
+              <button
+                onClick={() => entry.image && toggleCompare(index)}
+                className={`relative aspect-square bg-stone-950 flex items-center justify-center ${selected ? 'ring-2 ring-inset ring-[#d4af37]' : ''}`}
+              >
+                {entry.image ? (
+                  <img src={entry.image} alt={hypothesis.identification.type} className="absolute inset-0 w-full h-full object-cover" />
+                ) : entry.error ? (
+                  <span className="text-center px-4">
+                    <i className="fas fa-triangle-exclamation text-red-400 mb-2 block"></i>
+                    <span className="text-[10px] text-red-300">{entry.error}</span>
+                  </span>
+                ) : (
+                  <i className={`fas fa-circle-notch ${generating ? 'fa-spin' : ''} text-stone-600`}></i>
+                )}
+                <span className="absolute top-3 left-3 bg-black/60 px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-widest text-white">{title(index)}</span>
+              </button>
+
+              <div className="p-5 flex-1 flex flex-col">
+                <span className="text-[10px] text-[#d4af37] uppercase tracking-widest font-bold block mb-1">{hypothesis.identification.civilization}</span>
+                <span className="text-sm font-serif text-white leading-tight block mb-1">{hypothesis.identification.type}</span>
+                <span className="text-[10px] text-stone-500 uppercase block mb-3">{hypothesis.identification.era}</span>
+                <div className="flex items-center gap-2 mb-3">
+                  <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-[#d4af37]" style={{ width: `${hypothesis.confidence}%` }}></div>
+                  </div>
+                  <span className="text-[10px] font-mono text-stone-400">{hypothesis.confidence}%</span>
+                </div>
+                <p className="text-[11px] text-stone-400 leading-relaxed mb-4 flex-1">{hypothesis.rationale}</p>
+
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => onVote(index)}
+                    disabled={locked || voted}
+                    title={voted ? 'You have already voted on this case' : 'Vote for this hypothesis'}
+                    className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors disabled:opacity-30"
+                  >
+                    <i className="fas fa-thumbs-up mr-2"></i>{entry.votes}
+                  </button>
+                  {index < 0 ? (
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37]">
+                      <i className="fas fa-check mr-2"></i>{data.hypothesisAccepted ? 'Accepted' : 'Leading'}
+                    </span>
+                  ) : entry.error && !entry.image ? (
+                    <button
+                      onClick={() => onRetry(index)}
+                      disabled={locked}
+                      className="text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-white transition-colors disabled:opacity-30"
+                    >
+                      <i className="fas fa-rotate mr-2"></i>Regenerate
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onAccept(index)}
+                      disabled={locked}
+                      className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30"
+                    >
+                      Accept
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {data.hypothesisAccepted && (
+        <p className="text-[10px] text-stone-600 mt-6 italic">
+          A curator promoted an alternative. The identification, {labels.brief.toLowerCase()}, hotspots and "{labels.reconstructed}" render follow it; the narrative, timeline and "{labels.restored}" render were written for the original reading.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default HypothesisGallery;
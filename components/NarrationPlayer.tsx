@@ -0,0 +1,190 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { NarrativeAudience, ReconstructionData } from '../types';
+import { downloadFile, slugify } from '../services/download';
+import { NARRATIVE_AUDIENCES, audienceLabel } from '../services/narratives';
+import { NARRATION_LANGUAGES, NARRATION_VOICES, activeSentence, formatTime, narrationOf, pcmToWav, sentenceStarts, transcriptSentences } from '../services/narration';
+
+interface NarrationPlayerProps {
+  data: ReconstructionData;
+  /** True while a new narration is being written or synthesized. */
+  busy: boolean;
+  locked: boolean;
+  /** Rejects when the narrative or the speech could not be produced. */
+  onRenarrate: (voice: string, language: string, audience: NarrativeAudience) => Promise<void>;
+  onClose: () => void;
+}
+
+const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ data, busy, locked, onRenarrate, onClose }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const narration = narrationOf(data);
+  const [voice, setVoice] = useState(narration.voice);
+  const [language, setLanguage] = useState(narration.language);
+  const [audience, setAudience] = useState<NarrativeAudience>(narration.audience ?? 'tour');
+  const [error, setError] = useState<string | null>(null);
+
+  const wav = useMemo(() => (data.audioBlob ? pcmToWav(data.audioBlob) : null), [data.audioBlob]);
+  const url = useMemo(() => (wav ? URL.createObjectURL(wav) : null), [wav]);
+  useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+
+  // A new recording starts from the top with the settings it was made with.
+  useEffect(() => {
+    setCurrentTime(0);
+    setVoice(narration.voice);
+    setLanguage(narration.language);
+    setAudience(narration.audience ?? 'tour');
+  }, [data.audioBlob]);
+
+  const sentences = useMemo(() => transcriptSentences(narration.text), [narration.text]);
+  const starts = useMemo(() => sentenceStarts(sentences), [sentences]);
+  const progress = duration ? currentTime / duration : 0;
+  const active = playing || currentTime > 0 ? activeSentence(starts, progress) : -1;
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(err => console.error('Narration playback failed', err));
+    else audio.pause();
+  };
+
+  const seek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    audio.currentTime = Math.min(duration, Math.max(0, time));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const download = () => {
+    if (!wav) return;
+    const type = data.analysis?.identification.type ?? 'artifact';
+    downloadFile(`narration-${slugify(type)}-${slugify(narration.language)}.wav`, wav, 'audio/wav');
+  };
+
+  const renarrate = async () => {
+    setError(null);
+    try {
+      await onRenarrate(voice, language, audience);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'The narration could not be produced.');
+    }
+  };
+
+  const changed = voice !== narration.voice || language !== narration.language || audience !== (narration.audience ?? 'tour');
+
+  return (
+    <div className="fixed bottom-10 right-10 z-[100] w-[26rem] glass-card p-8 rounded-[2rem] border-[#d4af37]/40 animate-in slide-in-from-bottom-10 shadow-2xl">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          autoPlay
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={togglePlay}
+          disabled={!url || busy}
+          className="w-12 h-12 shrink-0 rounded-2xl bg-[#d4af37] flex items-center justify-center text-[#050505] hover:bg-[#b09130] transition-colors disabled:opacity-40"
+        >
+          <i className={`fas ${busy ? 'fa-circle-notch fa-spin' : playing ? 'fa-pause' : 'fa-play'}`}></i>
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between mb-2">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37]">{busy ? 'Synthesizing Narration' : `${audienceLabel(narration.audience)} Narration`}</span>
+            <span className="text-[10px] font-mono text-stone-500">{formatTime(currentTime)} / {formatTime(duration)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={currentTime}
+            onChange={(e) => seek(Number(e.target.value))}
+            disabled={!duration || busy}
+            className="w-full accent-[#d4af37]"
+          />
+        </div>
+        <button onClick={onClose} className="text-stone-500 hover:text-white p-2 transition-colors">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto pr-2 mb-6">
+        <p className="text-sm italic font-serif leading-relaxed">
+          {sentences.map((sentence, i) => (
+            <span
+              key={i}
+              onClick={() => seek(starts[i] * duration)}
+              className={`cursor-pointer transition-colors ${i === active ? 'text-[#d4af37]' : 'text-stone-400 hover:text-white'}`}
+            >
+              {sentence}{' '}
+            </span>
+          ))}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <select
+          value={audience}
+          onChange={(e) => setAudience(e.target.value as NarrativeAudience)}
+          disabled={busy}
+          className="col-span-2 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-stone-300 focus:outline-none focus:border-[#d4af37]/50"
+        >
+          {NARRATIVE_AUDIENCES.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+        </select>
+        <select
+          value={voice}
+          onChange={(e) => setVoice(e.target.value)}
+          disabled={busy}
+          className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-stone-300 focus:outline-none focus:border-[#d4af37]/50"
+        >
+          {NARRATION_VOICES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+        </select>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          disabled={busy}
+          className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-stone-300 focus:outline-none focus:border-[#d4af37]/50"
+        >
+          {NARRATION_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={renarrate}
+          disabled={locked || busy || (!changed && !!data.audioBlob)}
+          className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white transition-colors disabled:opacity-30"
+        >
+          {busy ? (
+            <><i className="fas fa-circle-notch fa-spin mr-2"></i>Synthesizing…</>
+          ) : data.audioBlob ? (
+            <><i className="fas fa-rotate mr-2"></i>Regenerate</>
+          ) : (
+            <><i className="fas fa-microphone-lines mr-2"></i>Narrate Tour</>
+          )}
+        </button>
+        <button
+          onClick={download}
+          disabled={!wav || busy}
+          className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors disabled:opacity-30"
+        >
+          <i className="fas fa-download mr-2"></i>Download WAV
+        </button>
+      </div>
+      {(error || data.assetErrors?.audioBlob) && <p className="text-[10px] text-red-400 mt-4">{error || data.assetErrors?.audioBlob}</p>}
+    </div>
+  );
+};
+
+export default NarrationPlayer;
@@ -0,0 +1,251 @@
+
+import React, { useState, useEffect, useRef, useMemo, Suspense } from 'react';
+import * as THREE from 'three';
+import { Canvas, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, useTexture } from '@react-three/drei';
+import { Physics, RigidBody, CuboidCollider, RapierRigidBody } from '@react-three/rapier';
+import { ArtifactMode, ShardAssembly, ShardJoin, ShardPlacement } from '../types';
+import { proposeJoins } from '../services/geminiService';
+import { TILE_SIZE, findSnap, initialPlacements, joinTarget } from '../services/shardAssembly';
+
+interface ReassemblyWorkspaceProps {
+  fragments: string[];
+  mode: ArtifactMode;
+  context: string;
+  onSubmit: (assembly: ShardAssembly) => void;
+  onCancel: () => void;
+}
+
+const TILE_HEIGHT = 0.08;
+const DRAG_HEIGHT = 0.4;
+const SETTLE_TOLERANCE = 0.05;
+const DRAG_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), -DRAG_HEIGHT);
+
+const toQuaternion = (rotation: number) =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(0, -rotation * Math.PI / 2, 0));
+
+interface ShardPieceProps {
+  image: string;
+  placement: ShardPlacement;
+  selected: boolean;
+  dragging: boolean;
+  onGrab: () => void;
+  onDrop: (x: number, z: number) => void;
+  onSettle: (x: number, z: number) => void;
+}
+
+// One fragment tile: a dynamic body that is switched to kinematic while the user drags it, so it can
+// shove the other pieces aside but is never knocked out of the user's hand.
+const ShardPiece: React.FC<ShardPieceProps> = ({ image, placement, selected, dragging, onGrab, onDrop, onSettle }) => {
+  const body = useRef<RapierRigidBody>(null);
+  const texture = useTexture(image);
+  const hit = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.needsUpdate = true;
+  }, [texture]);
+
+  // Snaps, rotations and resets come in through props; apply them to the physics body.
+  useEffect(() => {
+    body.current?.setTranslation({ x: placement.x, y: TILE_HEIGHT / 2, z: placement.z }, true);
+    body.current?.setRotation(toQuaternion(placement.rotation), true);
+  }, [placement.x, placement.z, placement.rotation]);
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    onGrab();
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragging || !e.ray.intersectPlane(DRAG_PLANE, hit)) return;
+    body.current?.setNextKinematicTranslation({ x: hit.x, y: DRAG_HEIGHT, z: hit.z });
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragging) return;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    const t = body.current?.translation();
+    if (t) onDrop(t.x, t.z);
+  };
+
+  return (
+    <RigidBody
+      ref={body}
+      type={dragging ? 'kinematicPosition' : 'dynamic'}
+      position={[placement.x, TILE_HEIGHT / 2, placement.z]}
+      rotation={[0, -placement.rotation * Math.PI / 2, 0]}
+      enabledRotations={[false, false, false]}
+      linearDamping={8}
+      colliders={false}
+      onSleep={() => {
+        // Pieces pushed aside by a drag report where they came to rest.
+        const t = body.current?.translation();
+        if (t && !dragging && Math.hypot(t.x - placement.x, t.z - placement.z) > SETTLE_TOLERANCE) onSettle(t.x, t.z);
+      }}
+    >
+      <CuboidCollider args={[TILE_SIZE / 2 * 0.98, TILE_HEIGHT / 2, TILE_SIZE / 2 * 0.98]} />
+      <group onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}>
+        <mesh>
+          <boxGeometry args={[TILE_SIZE, TILE_HEIGHT, TILE_SIZE]} />
+          <meshStandardMaterial color={selected ? '#d4af37' : '#44403c'} />
+        </mesh>
+        <mesh position={[0, TILE_HEIGHT / 2 + 0.001, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[TILE_SIZE, TILE_SIZE]} />
+          <meshStandardMaterial map={texture} />
+        </mesh>
+      </group>
+    </RigidBody>
+  );
+};
+
+const describeJoin = (join: ShardJoin) => `#${join.a} ${join.aEdge} ↔ #${join.b} ${join.bEdge}`;
+
+const ReassemblyWorkspace: React.FC<ReassemblyWorkspaceProps> = ({ fragments, mode, context, onSubmit, onCancel }) => {
+  const [joins, setJoins] = useState<ShardJoin[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [placements, setPlacements] = useState<ShardPlacement[]>(() => initialPlacements(fragments.length));
+  const [confirmed, setConfirmed] = useState<number[]>([]);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    proposeJoins(fragments, context, mode)
+      .then(result => !cancelled && setJoins(result))
+      .catch((err: any) => {
+        if (cancelled) return;
+        setError(err.message || 'Join proposal failed. You can still arrange the fragments by hand.');
+        setJoins([]);
+      });
+    return () => { cancelled = true; };
+  }, [fragments, context, mode]);
+
+  const place = (index: number, placement: ShardPlacement, joinIndex: number | null) => {
+    setPlacements(prev => prev.map((p, i) => (i === index ? placement : p)));
+    // Moving a piece breaks any join it was part of, unless it has just snapped into one.
+    setConfirmed(prev => {
+      const kept = prev.filter(j => joins?.[j].a !== index && joins?.[j].b !== index);
+      return joinIndex === null ? kept : [...kept, joinIndex];
+    });
+  };
+
+  const handleDrop = (index: number, x: number, z: number) => {
+    setDragging(null);
+    const dropped = { ...placements[index], x, z };
+    const moved = placements.map((p, i) => (i === index ? dropped : p));
+    const snap = findSnap(index, moved, joins ?? []);
+    place(index, snap ? snap.placement : dropped, snap ? snap.joinIndex : null);
+  };
+
+  const applyJoin = (joinIndex: number) => {
+    const join = joins![joinIndex];
+    place(join.b, joinTarget(join, join.b, placements), joinIndex);
+  };
+
+  const rotateSelected = () => {
+    if (selected === null) return;
+    place(selected, { ...placements[selected], rotation: (placements[selected].rotation + 1) % 4 }, null);
+  };
+
+  const reset = () => {
+    setPlacements(initialPlacements(fragments.length));
+    setConfirmed([]);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto glass-card rounded-[2.5rem] p-8 border-white/10 text-left">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xs font-bold uppercase tracking-[0.3em] text-[#d4af37]">Shard Reassembly · {fragments.length} fragments</h3>
+        <span className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Drag to move · drop near a partner to snap</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <div className="lg:col-span-2 relative aspect-[4/3] bg-stone-950 rounded-3xl overflow-hidden border border-white/5">
+          <Canvas camera={{ position: [0, 5, 3], fov: 45 }}>
+            <ambientLight intensity={0.7} />
+            <directionalLight position={[3, 6, 2]} intensity={1.2} />
+            <Suspense fallback={null}>
+              <Physics gravity={[0, -9.81, 0]}>
+                <RigidBody type="fixed" colliders={false}>
+                  <CuboidCollider args={[20, 0.5, 20]} position={[0, -0.5, 0]} />
+                </RigidBody>
+                {fragments.map((image, i) => (
+                  <ShardPiece
+                    key={i}
+                    image={image}
+                    placement={placements[i]}
+                    selected={selected === i}
+                    dragging={dragging === i}
+                    onGrab={() => { setDragging(i); setSelected(i); }}
+                    onDrop={(x, z) => handleDrop(i, x, z)}
+                    onSettle={(x, z) => place(i, { ...placements[i], x, z }, null)}
+                  />
+                ))}
+              </Physics>
+            </Suspense>
+            <gridHelper args={[12, 24, '#44403c', '#292524']} />
+            <OrbitControls enabled={dragging === null} enablePan={false} maxPolarAngle={Math.PI / 2.4} minDistance={2} maxDistance={12} />
+          </Canvas>
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full p-1.5">
+            <button
+              onClick={rotateSelected}
+              disabled={selected === null}
+              className="px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest text-stone-400 hover:text-white transition-all disabled:opacity-30"
+            >
+              <i className="fas fa-rotate-right mr-2"></i>Rotate {selected !== null ? `#${selected}` : ''}
+            </button>
+            <button onClick={reset} className="px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest text-stone-400 hover:text-white transition-all">
+              Reset
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+          <span className="text-[10px] text-stone-500 uppercase tracking-widest font-bold block mb-2">Proposed Joins</span>
+          {joins === null && <p className="text-[10px] text-stone-600 uppercase tracking-widest font-mono animate-pulse">Comparing break profiles...</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {joins?.length === 0 && !error && <p className="text-xs text-stone-600 italic">No joins proposed. Arrange the fragments by hand.</p>}
+          {joins?.map((join, i) => {
+            const isConfirmed = confirmed.includes(i);
+            return (
+              <div key={i} className={`p-4 rounded-2xl border ${isConfirmed ? 'border-[#d4af37]/40 bg-[#d4af37]/5' : 'border-white/5 bg-white/5'}`}>
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-xs font-mono text-white">{describeJoin(join)}</span>
+                  <span className="text-[10px] font-mono text-[#d4af37]">{join.confidence}%</span>
+                </div>
+                <div className="h-1 bg-white/5 rounded-full overflow-hidden mb-3">
+                  <div className="h-full bg-[#d4af37]" style={{ width: `${join.confidence}%` }}></div>
+                </div>
+                <p className="text-[11px] text-stone-400 leading-relaxed mb-3">{join.rationale}</p>
+                {isConfirmed ? (
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37]"><i className="fas fa-check mr-2"></i>Joined</span>
+                ) : (
+                  <button onClick={() => applyJoin(i)} className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+                    <i className="fas fa-link mr-2"></i>Snap Together
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 py-3 rounded-full border border-white/10 text-stone-400 font-bold text-xs uppercase tracking-widest hover:bg-white/5 hover:text-white transition-colors">
+          Discard
+        </button>
+        <button
+          onClick={() => onSubmit({ fragments, joins: joins ?? [], placements, confirmed })}
+          disabled={joins === null}
+          className="flex-1 py-3 rounded-full bg-[#d4af37] text-black font-bold text-xs uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+        >
+          Analyze Assembly · {confirmed.length} Joins
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReassemblyWorkspace;
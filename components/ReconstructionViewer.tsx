@@ -0,0 +1,61 @@
+
+import React, { useState } from 'react';
+import ComparisonSlider from './ComparisonSlider';
+import { ModeLabels } from '../constants';
+
+type Stage = 'fragment' | 'restored' | 'original';
+
+interface ReconstructionViewerProps {
+  originalImage: string;
+  presentImage: string | null;
+  pastImage: string;
+  labels: ModeLabels;
+}
+
+const COMPARISONS: { id: string; before: Stage; after: Stage }[] = [
+  { id: 'fragment-original', before: 'fragment', after: 'original' },
+  { id: 'fragment-restored', before: 'fragment', after: 'restored' },
+  { id: 'restored-original', before: 'restored', after: 'original' },
+];
+
+const ReconstructionViewer: React.FC<ReconstructionViewerProps> = ({ originalImage, presentImage, pastImage, labels }) => {
+  const [comparisonId, setComparisonId] = useState(COMPARISONS[0].id);
+
+  const images: Record<Stage, string | null> = { fragment: originalImage, restored: presentImage, original: pastImage };
+  const stageLabels: Record<Stage, string> = { fragment: labels.fragment, restored: labels.restored, original: labels.reconstructed };
+
+  const available = COMPARISONS.filter(c => images[c.before] && images[c.after]);
+  const active = available.find(c => c.id === comparisonId) ?? available[0];
+
+  return (
+    <div className="absolute inset-0">
+      <ComparisonSlider
+        key={active.id}
+        beforeImage={images[active.before]!}
+        afterImage={images[active.after]!}
+        beforeLabel={stageLabels[active.before]}
+        afterLabel={stageLabels[active.after]}
+      />
+
+      {available.length > 1 && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 bg-black/50 backdrop-blur-md rounded-full p-1 border border-white/10 flex items-center">
+          {available.map(c => (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => setComparisonId(c.id)}
+              className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${active.id === c.id
+                ? 'bg-[#d4af37] text-black'
+                : 'text-stone-400 hover:text-white'
+                }`}
+            >
+              {stageLabels[c.before]} <i className="fas fa-arrow-right mx-1 text-[8px]"></i> {stageLabels[c.after]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconstructionViewer;
@@ -0,0 +1,135 @@
+
+import React, { useState, useEffect } from 'react';
+import { ReferenceObject } from '../types';
+import { CatalogueImportResult, clearReferences, deleteReference, importCatalogue, listReferences } from '../services/referenceCatalogue';
+
+interface ReferenceCatalogueProps {
+  onClose: () => void;
+}
+
+const ReferenceCatalogue: React.FC<ReferenceCatalogueProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<ReferenceObject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<CatalogueImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listReferences()
+      .then(setRecords)
+      .catch((err: any) => setError(err.message || 'Could not open the reference catalogue.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!files.length) return;
+    setImporting(true);
+    setSummary(null);
+    try {
+      setSummary(await importCatalogue(files));
+      setRecords(await listReferences());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (record: ReferenceObject) => {
+    if (!window.confirm(`Remove ${record.title} from the catalogue?`)) return;
+    try {
+      await deleteReference(record.id);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+    } catch (err: any) {
+      setError(err.message || 'Could not remove the object.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Remove all ${records.length} objects from the catalogue?`)) return;
+    try {
+      await clearReferences();
+      setRecords([]);
+      setSummary(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not clear the catalogue.');
+    }
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
+        <div>
+          <h2 className="text-5xl font-serif italic mb-2">Reference Catalogue</h2>
+          <p className="text-[10px] uppercase tracking-[0.3em] text-stone-500 font-bold">{records.length} identified objects compared against every new scan</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className={`flex items-center gap-3 px-6 py-2 rounded-full border text-xs font-bold uppercase tracking-widest transition-all bg-white/5 border-white/10 text-white hover:bg-white/10 ${importing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+            <input type="file" multiple className="hidden" accept=".json,.csv,application/json,text/csv,image/*" onChange={handleImport} disabled={importing} />
+            <i className={`fas ${importing ? 'fa-circle-notch fa-spin' : 'fa-file-import'}`}></i>
+            {importing ? 'Importing' : 'Import'}
+          </label>
+          <button
+            onClick={handleClear}
+            disabled={!records.length || importing}
+            className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-red-400 transition-colors disabled:opacity-30"
+          >
+            Clear
+          </button>
+          <button onClick={onClose} className="text-xs font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-stone-500 mb-8 max-w-3xl">
+        Select a JSON or CSV metadata file together with its photographs. Rows name their photograph in an image or file column;
+        recognised columns include title, accession, type, culture, period, material, region and notes. Photographs without a row are imported under their file name.
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-8">{error}</p>}
+      {summary && (
+        <div className="mb-8 text-xs">
+          <p className="text-stone-300">Imported {summary.imported} object{summary.imported === 1 ? '' : 's'}.</p>
+          {summary.skipped.length > 0 && (
+            <ul className="mt-2 space-y-1 text-amber-400/80">
+              {summary.skipped.map((line, i) => <li key={i}>Skipped {line}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">Loading catalogue...</p>
+      ) : records.length === 0 ? (
+        <p className="text-xs text-stone-600 italic">The catalogue is empty. Scans are identified from web search alone until objects are imported.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-6">
+          {records.map(record => (
+            <div key={record.id} className="glass-card rounded-[1.5rem] overflow-hidden border-white/5">
+              <div className="aspect-square bg-stone-950 overflow-hidden">
+                <img src={record.image} alt={record.title} className="w-full h-full object-cover" />
+              </div>
+              <div className="p-4">
+                <span className="text-sm font-serif text-white leading-tight block mb-1 truncate">{record.title}</span>
+                {record.accession && <span className="text-[10px] text-[#d4af37] font-mono block truncate">{record.accession}</span>}
+                <span className="text-[10px] text-stone-500 uppercase block truncate">{[record.civilization, record.era].filter(Boolean).join(' · ')}</span>
+                <button
+                  onClick={() => handleDelete(record)}
+                  className="mt-3 text-[10px] font-bold uppercase tracking-widest text-stone-600 hover:text-red-400 transition-colors"
+                >
+                  <i className="fas fa-trash mr-2"></i>Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceCatalogue;
@@ -0,0 +1,35 @@
+
+import React from 'react';
+import { ReferenceMatch } from '../types';
+
+interface ReferenceMatchesProps {
+  matches: ReferenceMatch[];
+}
+
+const ReferenceMatches: React.FC<ReferenceMatchesProps> = ({ matches }) => (
+  <div>
+    <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-[#d4af37] mb-6">Catalogue Matches</h4>
+    <div className="space-y-4">
+      {matches.map(match => (
+        <div key={match.id} className="flex items-center gap-4 p-3 bg-white/5 rounded-2xl border border-white/5">
+          <img src={match.image} alt={match.title} className="w-14 h-14 rounded-xl object-cover bg-stone-950 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <span className="text-xs text-white font-medium truncate block">{match.title}</span>
+            <span className="text-[9px] uppercase tracking-widest text-stone-600 truncate block">
+              {[match.accession, match.civilization, match.era].filter(Boolean).join(' · ')}
+            </span>
+            <div className="flex items-center gap-2 mt-2">
+              <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+                <div className="h-full bg-[#d4af37]" style={{ width: `${match.similarity}%` }}></div>
+              </div>
+              <span className="text-[10px] font-mono text-stone-500">{match.similarity}%</span>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+    <p className="text-[9px] text-stone-600 mt-3">Visual similarity only; the analysis was asked to confirm or reject each match.</p>
+  </div>
+);
+
+export default ReferenceMatches;
@@ -0,0 +1,175 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageVersion } from '../types';
+import { ModeLabels } from '../constants';
+import { MASK_SIZE, maskFromPaint } from '../services/regionEdit';
+
+interface RegionEditorProps {
+  image: string;
+  labels: ModeLabels;
+  versions: ImageVersion[];
+  activeVersion?: number;
+  busy: boolean;
+  /** True while renders are still arriving or another change is in flight. */
+  locked: boolean;
+  /** Rejects when the edit failed, so the mask and instruction are kept for a retry. */
+  onSubmit: (mask: string, instruction: string) => Promise<void>;
+  onSelectVersion: (index: number) => void;
+}
+
+const BRUSH_SIZES = [12, 24, 48];
+
+const RegionEditor: React.FC<RegionEditorProps> = ({ image, labels, versions, activeVersion, busy, locked, onSubmit, onSelectVersion }) => {
+  const paintRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brush, setBrush] = useState(BRUSH_SIZES[1]);
+  const [instruction, setInstruction] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearMask = () => {
+    paintRef.current?.getContext('2d')?.clearRect(0, 0, MASK_SIZE, MASK_SIZE);
+    setHasMask(false);
+  };
+
+  // A new version is a new picture to paint on.
+  useEffect(clearMask, [image]);
+
+  // Pointer position in paint-canvas pixels; the brush is sized in screen pixels.
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * MASK_SIZE, y: ((e.clientY - rect.top) / rect.height) * MASK_SIZE, scale: MASK_SIZE / rect.width };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = paintRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvas(e);
+    const from = lastPoint.current ?? { x, y };
+    ctx.strokeStyle = '#d4af37';
+    ctx.lineWidth = brush * scale;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+    setHasMask(true);
+  };
+
+  const submit = async () => {
+    const mask = paintRef.current && maskFromPaint(paintRef.current);
+    if (!mask || !instruction.trim() || busy || locked) return;
+    setError(null);
+    try {
+      await onSubmit(mask, instruction.trim());
+      setInstruction('');
+    } catch (err: any) {
+      setError(err?.message || 'The region edit failed.');
+    }
+  };
+
+  const current = activeVersion !== undefined ? versions[activeVersion] : undefined;
+  const canStep = !busy && !locked && activeVersion !== undefined;
+
+  return (
+    <div className="absolute inset-0">
+      <img src={image} alt={labels.reconstructed} className={`absolute inset-0 w-full h-full object-cover ${busy ? 'opacity-50' : ''}`} />
+      <canvas
+        ref={paintRef}
+        width={MASK_SIZE}
+        height={MASK_SIZE}
+        onPointerDown={(e) => {
+          if (busy || locked) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          lastPoint.current = null;
+          paint(e);
+        }}
+        onPointerMove={(e) => e.buttons === 1 && lastPoint.current && paint(e)}
+        onPointerUp={() => { lastPoint.current = null; }}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+      />
+      {busy && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <p className="px-6 py-3 rounded-full bg-black/70 text-[10px] text-[#d4af37] uppercase tracking-widest font-mono">
+            <i className="fas fa-circle-notch fa-spin mr-2"></i>Redrawing region...
+          </p>
+        </div>
+      )}
+
+      <div className="absolute top-6 left-6 flex items-center gap-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full p-1.5">
+        {BRUSH_SIZES.map(size => (
+          <button
+            key={size}
+            onClick={() => setBrush(size)}
+            title={`Brush ${size}px`}
+            className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${brush === size ? 'bg-[#d4af37] text-black' : 'text-stone-400 hover:text-white'}`}
+          >
+            <span className="rounded-full bg-current" style={{ width: size / 4 + 4, height: size / 4 + 4 }}></span>
+          </button>
+        ))}
+        <button
+          onClick={clearMask}
+          disabled={!hasMask}
+          className="px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest text-stone-400 hover:text-white transition-all disabled:opacity-30"
+        >
+          Clear
+        </button>
+      </div>
+
+      {versions.length > 0 && (
+        <div className="absolute top-6 right-6 flex items-center gap-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full p-1.5 text-[9px] uppercase tracking-widest text-stone-300">
+          <button
+            onClick={() => onSelectVersion(activeVersion! - 1)}
+            disabled={!canStep || activeVersion === 0}
+            className="w-8 h-8 rounded-full text-stone-400 hover:text-white disabled:opacity-30"
+            title="Previous version"
+          >
+            <i className="fas fa-chevron-left"></i>
+          </button>
+          <span className="font-mono px-1">v{(activeVersion ?? 0) + 1} / {versions.length}</span>
+          <button
+            onClick={() => onSelectVersion(activeVersion! + 1)}
+            disabled={!canStep || activeVersion === versions.length - 1}
+            className="w-8 h-8 rounded-full text-stone-400 hover:text-white disabled:opacity-30"
+            title="Next version"
+          >
+            <i className="fas fa-chevron-right"></i>
+          </button>
+        </div>
+      )}
+
+      <div className="absolute bottom-6 inset-x-6 space-y-2">
+        {current && (
+          <p className="text-[10px] text-stone-300 bg-black/60 rounded-full px-4 py-1.5 inline-block">
+            {current.instruction ? `Edit: ${current.instruction}` : 'Full render'}
+          </p>
+        )}
+        {error && <p className="text-[10px] text-red-300 bg-black/70 rounded-full px-4 py-1.5">{error}</p>}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+          className="flex items-center gap-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full p-1.5"
+        >
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder={hasMask ? 'Describe the change for the painted region' : 'Paint over the region to redraw'}
+            className="flex-1 bg-transparent px-4 text-xs text-stone-200 placeholder:text-stone-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!hasMask || !instruction.trim() || busy || locked}
+            className="px-4 py-1.5 rounded-full bg-[#d4af37] text-black text-[9px] font-bold uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+          >
+            <i className="fas fa-paintbrush mr-2"></i>Redraw Region
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RegionEditor;
@@ -0,0 +1,121 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { ModeLabels } from '../constants';
+import { buildReliefGeometry, loadTexture, sampleImage, subtractMask } from '../services/reliefMesh';
+import { downloadFile } from '../services/download';
+
+interface Relief3DViewerProps {
+  originalImage: string;
+  pastImage: string;
+  labels: ModeLabels;
+  fileName: string;
+}
+
+interface ReliefModel {
+  fragment: THREE.BufferGeometry;
+  missing: THREE.BufferGeometry;
+  texture: THREE.Texture;
+}
+
+const Relief3DViewer: React.FC<Relief3DViewerProps> = ({ originalImage, pastImage, labels, fileName }) => {
+  const [model, setModel] = useState<ReliefModel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showMissing, setShowMissing] = useState(true);
+  const [autoRotate, setAutoRotate] = useState(true);
+  const groupRef = useRef<THREE.Group>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let built: ReliefModel | null = null;
+    setModel(null);
+    setError(null);
+
+    Promise.all([sampleImage(originalImage), sampleImage(pastImage), loadTexture(originalImage)])
+      .then(([fragmentSample, pastSample, texture]) => {
+        built = {
+          fragment: buildReliefGeometry(fragmentSample),
+          // The reconstruction sits slightly proud of the fragment so the added volume reads clearly.
+          missing: buildReliefGeometry(subtractMask(pastSample, fragmentSample), 0.3, 0.05),
+          texture,
+        };
+        if (cancelled) return;
+        setModel(built);
+      })
+      .catch((err: any) => !cancelled && setError(err.message || 'Could not build the 3D model.'));
+
+    return () => {
+      cancelled = true;
+      built?.fragment.dispose();
+      built?.missing.dispose();
+      built?.texture.dispose();
+    };
+  }, [originalImage, pastImage]);
+
+  const handleExport = () => {
+    if (!groupRef.current) return;
+    new GLTFExporter().parse(
+      groupRef.current,
+      (result) => downloadFile(`${fileName}.glb`, result as ArrayBuffer, 'model/gltf-binary'),
+      (err) => setError(err.message || 'glTF export failed.'),
+      { binary: true, onlyVisible: true }
+    );
+  };
+
+  return (
+    <div className="absolute inset-0">
+      {error ? (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-red-400 p-8 text-center">{error}</p>
+      ) : !model ? (
+        <p className="absolute inset-0 flex items-center justify-center text-[10px] text-stone-600 uppercase tracking-widest font-mono">Building relief mesh...</p>
+      ) : (
+        <Canvas camera={{ position: [0, 0, 3], fov: 45 }}>
+          <ambientLight intensity={0.6} />
+          <directionalLight position={[2, 3, 4]} intensity={1.4} />
+          <directionalLight position={[-3, -1, 2]} intensity={0.4} />
+          <group ref={groupRef} name="reconstruction">
+            <mesh geometry={model.fragment} name="fragment">
+              <meshStandardMaterial map={model.texture} roughness={0.85} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh geometry={model.missing} name="missing-volume" visible={showMissing}>
+              <meshStandardMaterial color="#d4af37" metalness={0.4} roughness={0.35} transparent opacity={0.55} side={THREE.DoubleSide} />
+            </mesh>
+          </group>
+          <OrbitControls enablePan={false} minDistance={1.5} maxDistance={6} autoRotate={autoRotate} autoRotateSpeed={1.5} />
+        </Canvas>
+      )}
+
+      <div className="absolute top-6 left-6 flex items-center gap-4 bg-black/60 backdrop-blur-md border border-white/10 rounded-full px-4 py-2 text-[9px] uppercase tracking-widest text-stone-300">
+        <span className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-sm bg-stone-400"></span>{labels.fragment}</span>
+        <span className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-sm bg-[#d4af37]"></span>Missing Volume</span>
+      </div>
+
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/60 backdrop-blur-md border border-white/10 rounded-full p-1.5">
+        <button
+          onClick={() => setShowMissing(!showMissing)}
+          className={`px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest transition-all ${showMissing ? 'bg-[#d4af37] text-black' : 'text-stone-400 hover:text-white'}`}
+        >
+          Missing Volume
+        </button>
+        <button
+          onClick={() => setAutoRotate(!autoRotate)}
+          className={`px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest transition-all ${autoRotate ? 'bg-[#d4af37] text-black' : 'text-stone-400 hover:text-white'}`}
+        >
+          Turntable
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={!model}
+          className="px-4 py-1.5 rounded-full text-[9px] font-bold uppercase tracking-widest text-stone-400 hover:text-white transition-all disabled:opacity-30"
+        >
+          <i className="fas fa-cube mr-2"></i>Export glTF
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Relief3DViewer;
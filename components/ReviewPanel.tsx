@@ -0,0 +1,236 @@
+
+import React, { useState } from 'react';
+import { ArtifactIdentification, ReconstructionData, ReviewStatus } from '../types';
+import { ModeLabels } from '../constants';
+import CitationMarks from './CitationMarks';
+import { REVIEW_STATUSES, describeValue, editLabel, reviewOf, sourceOf } from '../services/curatorReview';
+
+interface ReviewPanelProps {
+  data: ReconstructionData;
+  labels: ModeLabels;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  /** True while renders are still arriving or another change is in flight. */
+  locked: boolean;
+  onStatus: (status: ReviewStatus) => void;
+  onEditIdentification: (field: keyof ArtifactIdentification, value: string) => void;
+  onAnnotate: (index: number, note: string) => void;
+  onExportHistory: () => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-white/10 border-white/20 text-stone-300',
+  reviewed: 'bg-sky-500/20 border-sky-400/40 text-sky-300',
+  approved: 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300',
+};
+
+const SourceBadge: React.FC<{ curated: boolean }> = ({ curated }) => (
+  <span className={`text-[9px] font-bold uppercase tracking-widest ${curated ? 'text-sky-400' : 'text-stone-600'}`}>
+    <i className={`fas ${curated ? 'fa-user-pen' : 'fa-microchip'} mr-1`}></i>{curated ? 'Curator' : 'AI'}
+  </span>
+);
+
+const HISTORY_PREVIEW = 8;
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ data, labels, reviewer, onReviewerChange, locked, onStatus, onEditIdentification, onAnnotate, onExportHistory }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftValue, setDraftValue] = useState('');
+  const [showAllHistory, setShowAllHistory] = useState(false);
+  if (!data.analysis) return null;
+
+  const review = reviewOf(data);
+  const id = data.analysis.identification;
+  const fields: { key: keyof ArtifactIdentification; label: string }[] = [
+    { key: 'type', label: labels.objectClass },
+    { key: 'civilization', label: labels.origin },
+    { key: 'era', label: labels.period },
+    { key: 'exactYearRange', label: 'Date Range' },
+    { key: 'region', label: 'Region' },
+    { key: 'material', label: 'Material' },
+    ...(data.analysis.mode === 'new' ? [{ key: 'repairMethod' as const, label: 'Repair Method' }] : []),
+  ];
+
+  const startEditing = (key: string, value: string) => {
+    setEditing(key);
+    setDraftValue(value);
+  };
+
+  const save = (apply: (value: string) => void) => {
+    apply(draftValue);
+    setEditing(null);
+  };
+
+  const history = [...review.history].reverse();
+  const shownHistory = showAllHistory ? history : history.slice(0, HISTORY_PREVIEW);
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 border-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500">Curator Review</h4>
+        <div className="flex items-center gap-3">
+          <input
+            value={reviewer}
+            onChange={(e) => onReviewerChange(e.target.value)}
+            placeholder="Reviewer name"
+            className="w-40 bg-white/5 border border-white/10 rounded-full px-4 py-1.5 text-stone-300 placeholder:text-stone-600 focus:outline-none focus:border-[#d4af37]/50 text-[10px] font-mono"
+          />
+          {REVIEW_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => onStatus(status)}
+              disabled={locked || (status !== 'draft' && !reviewer.trim())}
+              title={status !== 'draft' && !reviewer.trim() ? 'Enter a reviewer name first' : undefined}
+              className={`px-4 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${review.status === status ? STATUS_STYLES[status] : 'bg-transparent border-white/5 text-stone-600 hover:text-white'}`}
+            >
+              {status}
+            </button>
+          ))}
+        </div>
+      </div>
+      {review.reviewer && review.status !== 'draft' && (
+        <p className="text-[10px] text-stone-500 font-mono uppercase tracking-widest -mt-4 mb-8">
+          {review.status} by {review.reviewer}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <span className="text-[10px] text-stone-600 uppercase tracking-widest font-bold block mb-4">Identification</span>
+          <div className="space-y-3">
+            {fields.map(({ key, label }) => {
+              const value = id[key] ?? '';
+              const fieldKey = `identification.${key}`;
+              return (
+                <div key={key} className="border-b border-white/5 pb-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] text-stone-600 uppercase">
+                      {label}
+                      <CitationMarks analysis={data.analysis!} field={fieldKey} curated={sourceOf(data, `analysis.${fieldKey}`) === 'curator'} />
+                    </span>
+                    <SourceBadge curated={sourceOf(data, `analysis.${fieldKey}`) === 'curator'} />
+                  </div>
+                  {editing === fieldKey ? (
+                    <div className="flex gap-2">
+                      <input
+                        value={draftValue}
+                        onChange={(e) => setDraftValue(e.target.value)}
+                        autoFocus
+                        className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-stone-200 text-xs focus:outline-none focus:border-[#d4af37]/50"
+                      />
+                      <button
+                        onClick={() => save(v => onEditIdentification(key, v.trim()))}
+                        disabled={locked || !draftValue.trim()}
+                        className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white disabled:opacity-30"
+                      >
+                        Save
+                      </button>
+                      <button onClick={() => setEditing(null)} className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white">
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => startEditing(fieldKey, value)}
+                      disabled={locked}
+                      className="w-full text-left text-sm text-white hover:text-[#d4af37] transition-colors disabled:hover:text-white group"
+                    >
+                      {value || <span className="text-stone-600 italic">Not set</span>}
+                      <i className="fas fa-pen text-[9px] text-stone-600 ml-2 opacity-0 group-hover:opacity-100"></i>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-[10px] text-stone-600 uppercase tracking-widest font-bold block mb-4">Timeline Annotations</span>
+          <div className="space-y-4">
+            {data.analysis.timeline.map((event, i) => {
+              const noteKey = `timeline.${i}`;
+              return (
+                <div key={i} className="border-b border-white/5 pb-3">
+                  <span className="text-xs font-bold text-white block">{event.year}</span>
+                  <p className="text-[11px] text-stone-500 leading-normal mb-2">{event.event}</p>
+                  {editing === noteKey ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={draftValue}
+                        onChange={(e) => setDraftValue(e.target.value)}
+                        rows={2}
+                        autoFocus
+                        className="w-full bg-black/40 border border-white/10 rounded-xl p-3 text-stone-300 text-xs focus:outline-none focus:border-[#d4af37]/50 resize-none"
+                      />
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => save(v => onAnnotate(i, v))}
+                          disabled={locked}
+                          className="text-[10px] font-bold uppercase tracking-widest text-[#d4af37] hover:text-white disabled:opacity-30"
+                        >
+                          Save Note
+                        </button>
+                        <button onClick={() => setEditing(null)} className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : event.note ? (
+                    <button
+                      onClick={() => startEditing(noteKey, event.note ?? '')}
+                      disabled={locked}
+                      className="w-full text-left text-[11px] text-sky-300 italic leading-normal hover:text-white transition-colors"
+                    >
+                      <i className="fas fa-user-pen mr-2"></i>{event.note}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => startEditing(noteKey, '')}
+                      disabled={locked}
+                      className="text-[10px] font-bold uppercase tracking-widest text-stone-600 hover:text-white transition-colors disabled:opacity-30"
+                    >
+                      <i className="fas fa-plus mr-2"></i>Annotate
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-10 pt-6 border-t border-white/5">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] text-stone-600 uppercase tracking-widest font-bold">Edit History · {review.history.length}</span>
+          {review.history.length > 0 && (
+            <button onClick={onExportHistory} className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+              <i className="fas fa-download mr-2"></i>Export History
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-stone-600 italic">Every value is as the model produced it. Edits made here, on the hotspots or on the prompts are logged.</p>
+        ) : (
+          <ol className="space-y-2">
+            {shownHistory.map((edit, i) => (
+              <li key={i} className="text-[11px] font-mono leading-relaxed">
+                <span className="text-stone-600">{new Date(edit.at).toLocaleString()}{edit.reviewer ? ` · ${edit.reviewer}` : ''}</span>
+                <span className="text-stone-400 block">{editLabel(edit.path)}</span>
+                <span className="text-red-300/70 line-through mr-2">{describeValue(edit.before)}</span>
+                {edit.replaced && <span className="text-[9px] uppercase text-stone-600 mr-2">({edit.replaced})</span>}
+                <span className="text-emerald-300/80">{describeValue(edit.after)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+        {history.length > HISTORY_PREVIEW && (
+          <button onClick={() => setShowAllHistory(!showAllHistory)} className="mt-4 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-white transition-colors">
+            {showAllHistory ? 'Show Recent' : `Show All ${history.length}`}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ReviewPanel;
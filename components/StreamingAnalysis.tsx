@@ -0,0 +1,108 @@
+
+import React from 'react';
+import { AnalysisDraft } from '../types';
+import { ModeLabels } from '../constants';
+
+interface StreamingAnalysisProps {
+  draft: AnalysisDraft | null;
+  labels: ModeLabels;
+  fragmentImage: string | null;
+}
+
+const Pending: React.FC<{ width?: string }> = ({ width = 'w-32' }) => (
+  <span className={`inline-block h-4 ${width} rounded bg-white/5 animate-pulse align-middle`}></span>
+);
+
+const Field: React.FC<{ label: string; value?: string; accent?: boolean }> = ({ label, value, accent }) => (
+  <div>
+    <span className="text-[10px] text-stone-600 uppercase block mb-1">{label}</span>
+    {value ? (
+      <span className={`text-sm font-bold animate-in fade-in ${accent ? 'text-[#d4af37]' : 'text-white'}`}>{value}</span>
+    ) : (
+      <Pending />
+    )}
+  </div>
+);
+
+// Live view of the analysis while it streams: identification, timeline and narrative fill in as the
+// model writes them, before anything has been validated or any image generated.
+const StreamingAnalysis: React.FC<StreamingAnalysisProps> = ({ draft, labels, fragmentImage }) => {
+  const id = draft?.identification ?? {};
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 animate-in fade-in duration-700">
+      <div className="lg:col-span-8 space-y-8">
+        <section className="glass-card rounded-[3rem] p-10 border-white/10">
+          <div className="flex items-center gap-4 mb-8">
+            <div className="w-3 h-3 rounded-full bg-[#d4af37] animate-pulse"></div>
+            <h2 className="text-xs font-bold uppercase tracking-[0.3em] text-[#d4af37]">{labels.analyzingHeadline}</h2>
+            <span className="text-[10px] text-stone-600 font-mono uppercase tracking-widest ml-auto">{labels.analyzingDetail}</span>
+          </div>
+          <div className="flex gap-8">
+            {fragmentImage && (
+              <div className="relative w-48 h-48 shrink-0 rounded-3xl overflow-hidden border border-white/5">
+                <img src={fragmentImage} alt={labels.fragment} className="w-full h-full object-cover" />
+                <div className="scan-line"></div>
+              </div>
+            )}
+            <div className="flex-1 space-y-6">
+              <div>
+                <span className="text-[10px] text-stone-600 uppercase block mb-1">{labels.origin}</span>
+                {id.civilization ? <span className="text-2xl font-serif text-white animate-in fade-in">{id.civilization}</span> : <Pending width="w-64" />}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <Field label={labels.objectClass} value={id.type} accent />
+                <Field label={labels.period} value={id.era} />
+                <Field label="Material" value={id.material} />
+                <Field label="Region" value={id.region} />
+                {id.repairMethod && <Field label="Repair Method" value={id.repairMethod} />}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <section className="glass-card rounded-[2.5rem] p-8 border-white/5">
+          <h4 className="text-xs font-bold text-stone-500 uppercase tracking-widest mb-4">{labels.brief}</h4>
+          {draft?.description ? (
+            <p className="text-lg text-stone-300 leading-relaxed font-serif italic">"{draft.description}"</p>
+          ) : (
+            <div className="space-y-2"><Pending width="w-full" /><Pending width="w-3/4" /></div>
+          )}
+        </section>
+      </div>
+
+      <div className="lg:col-span-4 space-y-8">
+        <section className="glass-card rounded-[3rem] p-10 border-white/5">
+          <h4 className="text-[10px] font-bold uppercase tracking-[0.3em] text-stone-500 mb-6">History Timeline</h4>
+          {draft && draft.timeline.length > 0 ? (
+            <div className="space-y-6">
+              {draft.timeline.map((event, i) => (
+                <div key={i} className="relative pl-8 animate-in fade-in slide-in-from-left-2">
+                  <div className="absolute left-0 top-1.5 w-2 h-2 rounded-full bg-[#d4af37]"></div>
+                  <span className="text-xs font-bold text-white block mb-1">{event.year}</span>
+                  <p className="text-xs text-stone-500 leading-normal">{event.event}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4"><Pending width="w-full" /><Pending width="w-2/3" /><Pending width="w-5/6" /></div>
+          )}
+        </section>
+
+        <section className="p-6 bg-[#d4af37]/5 rounded-3xl border border-[#d4af37]/10">
+          <div className="flex items-center gap-3 mb-3">
+            <i className="fas fa-podcast text-[#d4af37] text-sm"></i>
+            <span className="text-[10px] font-bold uppercase tracking-widest text-white">Curator Narrative</span>
+          </div>
+          {draft?.curatorNarrative ? (
+            <p className="text-xs text-stone-400 leading-relaxed italic font-serif">"{draft.curatorNarrative}"</p>
+          ) : (
+            <Pending width="w-full" />
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StreamingAnalysis;
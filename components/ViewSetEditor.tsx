@@ -0,0 +1,96 @@
+
+import React from 'react';
+import { ArtifactView, ViewRole } from '../types';
+import { VIEW_ROLES, filesToViews } from '../services/imageFiles';
+
+interface ViewSetEditorProps {
+  views: ArtifactView[];
+  onChange: (views: ArtifactView[]) => void;
+  onSubmit: () => void;
+  /** Treat the photos as separate fragments of one object rather than views of it. */
+  onReassemble?: () => void;
+  onCancel: () => void;
+}
+
+const ViewSetEditor: React.FC<ViewSetEditorProps> = ({ views, onChange, onSubmit, onReassemble, onCancel }) => {
+  const setRole = (idx: number, role: ViewRole) =>
+    onChange(views.map((v, i) => (i === idx ? { ...v, role } : v)));
+
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= views.length) return;
+    const next = [...views];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  const remove = (idx: number) => onChange(views.filter((_, i) => i !== idx));
+
+  const addMore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length) onChange([...views, ...(await filesToViews(files, views.length))]);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto glass-card rounded-[2.5rem] p-8 border-white/10 text-left">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xs font-bold uppercase tracking-[0.3em] text-[#d4af37]">View Set · {views.length} photos</h3>
+        <span className="text-[10px] text-stone-600 uppercase tracking-widest font-mono">View 0 is the primary image</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        {views.map((view, idx) => (
+          <div key={idx} className="bg-white/5 rounded-2xl border border-white/5 overflow-hidden">
+            <div className="relative aspect-square">
+              <img src={view.image} alt={`View ${idx}`} className="w-full h-full object-cover" />
+              <span className="absolute top-2 left-2 bg-black/60 px-2 py-0.5 rounded text-[10px] font-mono text-white">{idx}</span>
+            </div>
+            <div className="p-2 space-y-2">
+              <select
+                value={view.role}
+                onChange={(e) => setRole(idx, e.target.value as ViewRole)}
+                className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[10px] uppercase tracking-widest text-stone-300 focus:outline-none focus:border-[#d4af37]/50"
+              >
+                {VIEW_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <div className="flex justify-between text-stone-500">
+                <button onClick={() => move(idx, -1)} disabled={idx === 0} className="hover:text-white disabled:opacity-20 px-1"><i className="fas fa-chevron-left text-xs"></i></button>
+                <button onClick={() => remove(idx)} className="hover:text-red-400 px-1"><i className="fas fa-trash text-xs"></i></button>
+                <button onClick={() => move(idx, 1)} disabled={idx === views.length - 1} className="hover:text-white disabled:opacity-20 px-1"><i className="fas fa-chevron-right text-xs"></i></button>
+              </div>
+            </div>
+          </div>
+        ))}
+        <label className="aspect-square rounded-2xl border-2 border-dashed border-white/10 hover:border-[#d4af37]/30 flex flex-col items-center justify-center cursor-pointer text-stone-500 hover:text-white transition-colors">
+          <input type="file" className="hidden" accept="image/*" multiple onChange={addMore} />
+          <i className="fas fa-plus mb-2"></i>
+          <span className="text-[10px] uppercase tracking-widest font-bold">Add View</span>
+        </label>
+      </div>
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className="flex-1 py-3 rounded-full border border-white/10 text-stone-400 font-bold text-xs uppercase tracking-widest hover:bg-white/5 hover:text-white transition-colors">
+          Discard
+        </button>
+        {onReassemble && views.length > 1 && (
+          <button
+            onClick={onReassemble}
+            className="flex-1 py-3 rounded-full border border-[#d4af37]/30 text-[#d4af37] font-bold text-xs uppercase tracking-widest hover:bg-[#d4af37]/10 transition-colors"
+          >
+            <i className="fas fa-puzzle-piece mr-2"></i>Separate Fragments
+          </button>
+        )}
+        <button
+          onClick={onSubmit}
+          disabled={views.length === 0}
+          className="flex-1 py-3 rounded-full bg-[#d4af37] text-black font-bold text-xs uppercase tracking-widest hover:bg-[#b09130] disabled:opacity-30 transition-colors"
+        >
+          Analyze {views.length} Views
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ViewSetEditor;
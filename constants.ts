@@ -0,0 +1,47 @@
+import { ArtifactMode } from './types';
+
+export interface ModeLabels {
+  title: string;
+  origin: string;
+  objectClass: string;
+  period: string;
+  fragment: string;
+  restored: string;
+  reconstructed: string;
+  brief: string;
+  conservation: string;
+  contextPlaceholder: string;
+  analyzingHeadline: string;
+  analyzingDetail: string;
+}
+
+export const MODE_LABELS: Record<ArtifactMode, ModeLabels> = {
+  old: {
+    title: 'Ancient Artifact',
+    origin: 'Civilization',
+    objectClass: 'Object Class',
+    period: 'Period',
+    fragment: 'Found Fragment',
+    restored: 'Restored Today',
+    reconstructed: 'Reconstructed',
+    brief: 'Archaeological Brief',
+    conservation: 'Conservation Notes',
+    contextPlaceholder: "OPTIONAL: Provide context hint (e.g. 'Found in Rome, 2nd Century')",
+    analyzingHeadline: 'Grounding History',
+    analyzingDetail: 'Fetching global archaeological records...',
+  },
+  new: {
+    title: 'Modern Object',
+    origin: 'Manufacturer',
+    objectClass: 'Product Type',
+    period: 'Production Decade',
+    fragment: 'Broken Item',
+    restored: 'Repaired',
+    reconstructed: 'As Manufactured',
+    brief: 'Product Brief',
+    conservation: 'Repair Notes',
+    contextPlaceholder: "OPTIONAL: Provide context hint (e.g. 'Grandmother's mug, bought in the 1970s')",
+    analyzingHeadline: 'Tracing Provenance',
+    analyzingDetail: 'Searching maker catalogues and collector records...',
+  },
+};
@@ -0,0 +1,71 @@
+import { AnalysisDraft, ArtifactAnalysis, ArtifactMode, ArtifactView, ChatMessage, ChatReply, NarrativeAudience, ReferenceMatch, ShardJoin } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { fixtureProvider } from "./fixtureProvider";
+
+export type ProviderId = 'gemini' | 'fixture';
+
+export interface ProviderModels {
+  analysis: string;
+  image: string;
+  speech: string;
+}
+
+/**
+ * Everything the reconstruction pipeline needs from an AI backend.
+ * Images are returned as data URLs, speech as raw base64 PCM (24 kHz, 16-bit mono).
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  models: ProviderModels;
+  /**
+   * `onDraft` is called as the analysis streams in, before validation. `references` are the nearest
+   * local catalogue objects, offered to the analysis as comparanda.
+   */
+  analyzeArtifact: (views: ArtifactView[], context?: string, mode?: ArtifactMode, onDraft?: (draft: AnalysisDraft) => void, references?: ReferenceMatch[]) => Promise<ArtifactAnalysis>;
+  /** Answers a follow-up question about a finished analysis; `history` is the conversation so far. */
+  chatAboutArtifact: (analysis: ArtifactAnalysis, image: string | null, history: ChatMessage[], question: string, mode?: ArtifactMode) => Promise<ChatReply>;
+  /** Retells a finished analysis for one audience; `image` is the reconstruction, which audio descriptions describe. */
+  writeNarrative: (analysis: ArtifactAnalysis, audience: Exclude<NarrativeAudience, 'tour'>, image: string | null, mode?: ArtifactMode) => Promise<string>;
+  /** Suggests which of several separate fragment photos join, strongest first. */
+  proposeJoins: (fragments: string[], context?: string, mode?: ArtifactMode) => Promise<ShardJoin[]>;
+  /**
+   * A fixed `seed` makes a render repeatable; omit it to let the backend choose. `reference` is the
+   * fragment photo the render must stay faithful to.
+   */
+  generateImage: (prompt: string, mode?: ArtifactMode, seed?: number, reference?: string) => Promise<string>;
+  /** Redraws the area of `image` that is white in `mask` (a PNG data URL of the same framing). */
+  editImageRegion: (image: string, mask: string, instruction: string, mode?: ArtifactMode) => Promise<string>;
+  /** `voice` is one of NARRATION_VOICES; the backend's default voice when omitted. */
+  generateSpeech: (text: string, voice?: string) => Promise<string>;
+  /** Plain-text translation of a narration script into the named language. */
+  translateText: (text: string, language: string) => Promise<string>;
+}
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  fixture: fixtureProvider,
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// `?provider=fixture` in the URL wins over the build-time AI_PROVIDER setting so demos need no rebuild.
+const resolveProviderId = (): ProviderId => {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromQuery)) return fromQuery;
+  }
+  const fromEnv = process.env.AI_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : 'gemini';
+};
+
+let activeProvider: AIProvider = PROVIDERS[resolveProviderId()];
+
+export const getProvider = (): AIProvider => activeProvider;
+
+export const setProvider = (id: ProviderId): AIProvider => {
+  activeProvider = PROVIDERS[id];
+  return activeProvider;
+};
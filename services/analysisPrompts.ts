@@ -0,0 +1,396 @@
+import { Type } from "@google/genai";
+import { ArtifactAnalysis, ArtifactMode, ConfidenceDimension, NarrativeAudience, ReferenceMatch, ViewRole } from "../types";
+
+// Gemini prompt and responseSchema for each artifact mode. The two modes share everything
+// except the identification block and the persona driving the analysis.
+
+const archaeologyPrompt = (context: string) => `You are a Senior Forensic Archaeologist. Your task is a high-precision identification of this fragment. Do not guess; perform a feature-by-feature analysis.
+
+User Context which might be helpful: "${context}" (Verify this against visual evidence).
+
+Step 1: Identity & Persona Lock
+- Determine the IDENTITY of the figure: gender, age, and social status.
+- Look for Diagnostic Markers: shape of the jawline, hair/headdress style, musculature, jewelry, or specific attire.
+- VERIFY: Does this represent a specific deity, a common person, or a ruler? Explain why based on the fragment.
+
+Step 2: Artistic DNA
+- Analyze the "hand" of the artist: carving depth, eye style (e.g., almond-shaped, hooded), and surface finishing.
+- Use Google Search to find identical archeological matches (e.g., "Indus Valley mother goddess vs priest king").
+
+Step 3: Damage & Missing Volume
+- Map the exact break points. Trace every damaged area as a polygon in the same 0-100 image coordinates used for hotspots, typed as fracture, erosion, loss or discoloration, with a severity of minor, moderate or severe.
+- Reconstruct the missing geometry based strictly on the IDENTIFIED persona (Step 1) and civilization.
+
+Step 4: Output Synthesis
+- Provide a visualPrompt that is a perfect, intact version of the subject. 
+- CRITICAL: The prompt must explicitly state the gender and specific attire to prevent AI generation errors.
+
+Required JSON Output:
+{
+  "identification": { 
+    "type": "Specific scientific name",
+    "era": "e.g., 2500-1900 BCE",
+    "civilization": "Verified Culture",
+    "region": "Likely excavation site",
+    "material": "Specific material composition",
+    "exactYearRange": "BCE/CE range"
+  },
+  "damageAnalysis": {
+    "description": "Technical analysis of damage",
+    "missingSections": "Specific missing features",
+    "regions": [ { "type": "fracture|erosion|loss|discoloration", "severity": "minor|moderate|severe", "label": "Short name", "points": [ { "x": 0-100, "y": 0-100 } ] } ]
+  },
+  "timeline": [ { "year": "Date", "event": "Grounded historical fact" } ],
+  "pastReconstruction": { 
+    "description": "Historical description focusing on the identity and persona of the whole object.",
+    "visualPrompt": "A MASTERPIECE museum photograph of the WHOLE, COMPLETE version of this [GENDER] [OBJECT TYPE] from [CIVILIZATION]. It must feature [SPECIFIC HEADDRESS/FEATURE FROM FRAGMENT]. Maintain identical facial features and artistic style. 8k, professional studio lighting, neutral grey background, extremely realistic textures.",
+    "hotspots": [ { "view": 0, "x": 0-100, "y": 0-100, "label": "Identity Marker", "detail": "Why this confirms the persona" } ]
+  },
+  "modernRestoration": { "description": "Conservation notes", "visualPrompt": "The restored object displayed in a modern museum spotlight." },
+  "confidenceScore": 0-100,
+  "confidenceExplanation": "Scientific reasoning focusing on why this identity (gender/type) was chosen.",
+  "assumptions": "Archaeological gaps filled.",
+  "curatorNarrative": "A 4-sentence factual tour script based on forensic evidence."
+}`;
+
+const modernObjectPrompt = (context: string) => `You are a Senior Object Conservator specialising in modern and contemporary material culture (19th-21st century manufactured goods). Your task is a high-precision identification of this broken object. Do not guess; perform a feature-by-feature analysis.
+
+User Context which might be helpful: "${context}" (Verify this against visual evidence).
+
+Step 1: Product Identification
+- Determine WHAT the object is: ceramic tableware, furniture, toy, appliance, ornament, etc.
+- Look for Diagnostic Markers: maker's marks, backstamps, moulding seams, glaze type, fasteners, hardware, logos, patent numbers.
+- VERIFY: Is this a mass-produced item, a limited series, or a handmade piece? Explain why based on the evidence.
+
+Step 2: Manufacturing DNA
+- Analyze the production technique: slip-casting, injection moulding, turned wood, stamped metal, transfer printing.
+- Use Google Search to find the exact product line, manufacturer catalogues or collector references.
+
+Step 3: Damage & Repair Planning
+- Map the exact break points. Trace every damaged area as a polygon in the same 0-100 image coordinates used for hotspots, typed as fracture, erosion, loss or discoloration, with a severity of minor, moderate or severe.
+- Choose the most appropriate repair method for the material (e.g., epoxy bonding, kintsugi, dowel and glue joint, solvent weld) and explain why.
+
+Step 4: Output Synthesis
+- Provide a visualPrompt that shows the object exactly as it looked when it left the factory.
+- CRITICAL: The prompt must explicitly state the colourway, pattern and proportions visible on the fragment.
+
+Required JSON Output:
+{
+  "identification": {
+    "type": "Specific product type",
+    "manufacturer": "Maker or brand, or 'Unattributed'",
+    "productionDecade": "e.g., 1950s",
+    "repairMethod": "Recommended repair technique",
+    "region": "Country of manufacture",
+    "material": "Specific material composition"
+  },
+  "damageAnalysis": {
+    "description": "Technical analysis of damage",
+    "missingSections": "Specific missing parts",
+    "regions": [ { "type": "fracture|erosion|loss|discoloration", "severity": "minor|moderate|severe", "label": "Short name", "points": [ { "x": 0-100, "y": 0-100 } ] } ]
+  },
+  "timeline": [ { "year": "Date", "event": "Grounded fact about the maker or product line" } ],
+  "pastReconstruction": {
+    "description": "Description of the object as originally sold.",
+    "visualPrompt": "A professional catalogue photograph of the WHOLE, BRAND-NEW [OBJECT TYPE] by [MANUFACTURER], [DECADE]. It must feature [SPECIFIC PATTERN/FEATURE FROM FRAGMENT]. Studio lighting, neutral grey background, extremely realistic textures.",
+    "hotspots": [ { "view": 0, "x": 0-100, "y": 0-100, "label": "Maker Marker", "detail": "Why this confirms the product" } ]
+  },
+  "modernRestoration": { "description": "Step-by-step repair notes", "visualPrompt": "The repaired object photographed in a bright, clean workshop, repair lines visible." },
+  "confidenceScore": 0-100,
+  "confidenceExplanation": "Reasoning for why this product and maker were chosen.",
+  "assumptions": "Gaps filled where evidence was missing.",
+  "curatorNarrative": "A 4-sentence factual story of this object, its maker and how it can be repaired."
+}`;
+
+const ANTIQUE_IDENTIFICATION = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING },
+    era: { type: Type.STRING },
+    civilization: { type: Type.STRING },
+    region: { type: Type.STRING },
+    material: { type: Type.STRING },
+    exactYearRange: { type: Type.STRING },
+  },
+  required: ['type', 'era', 'civilization', 'region', 'material', 'exactYearRange']
+};
+
+const MODERN_IDENTIFICATION = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING },
+    manufacturer: { type: Type.STRING },
+    productionDecade: { type: Type.STRING },
+    repairMethod: { type: Type.STRING },
+    region: { type: Type.STRING },
+    material: { type: Type.STRING },
+  },
+  required: ['type', 'manufacturer', 'productionDecade', 'repairMethod', 'region', 'material']
+};
+
+const viewsPreamble = (roles: ViewRole[]) =>
+  roles.length > 1
+    ? `You are given ${roles.length} photographs of the SAME object, labelled View 0 to View ${roles.length - 1} (${roles.map((r, i) => `${i}: ${r}`).join(', ')}). Cross-reference all of them. Every hotspot must include "view": the index of the photograph its x/y coordinates refer to. Damage regions always refer to View 0.\n\n`
+    : `Every hotspot must include "view": 0.\n\n`;
+
+const alternativesPostscript = (mode: ArtifactMode) => `
+
+Alternative Hypotheses:
+The evidence rarely settles identity outright. In addition to the leading identification above, return "alternatives": up to 3 other plausible ${mode === 'new' ? 'products or makers' : 'identities (e.g. deity vs. ruler vs. private individual)'}, strongest first. Each has its own "identification" (same fields as above), "confidence" (0-100), "rationale" (what supports it and what argues against it), "description", "visualPrompt" (same rules as the leading visualPrompt) and "hotspots". Return an empty list only if no other reading is defensible.`;
+
+export const CONFIDENCE_DIMENSIONS: ConfidenceDimension[] = ['type', 'civilization', 'dating', 'material', 'reconstruction'];
+
+const confidencePostscript = (mode: ArtifactMode) => `
+
+Confidence Breakdown:
+A single score hides where the uncertainty lies. Also return "confidenceBreakdown": one entry per dimension, each with "dimension", "score" (0-100) and "evidence" (the specific visual or documentary evidence behind that score, and what is missing). The dimensions are: "type" (what the object is), "civilization" (${mode === 'new' ? 'the maker or brand' : 'the culture that produced it'}), "dating" (${mode === 'new' ? 'the production decade' : 'the era and year range'}), "material", and "reconstruction" (how well the missing volume is constrained by what survives). Score each dimension on its own evidence; do not copy confidenceScore.`;
+
+const referenceLine = (match: ReferenceMatch, index: number) =>
+  `- Catalogue reference ${index + 1} (${match.similarity}% visual similarity): ` +
+  [match.title, match.accession && `accession ${match.accession}`, match.type, match.civilization, match.era, match.material, match.region, match.notes].filter(Boolean).join('; ');
+
+// Similarity comes from a colour and shape descriptor, not from understanding the object, so the
+// matches are offered as candidates to check rather than as answers.
+const referencesPostscript = (matches: ReferenceMatch[]) => matches.length ? `
+
+Museum Catalogue Comparanda:
+The museum's own catalogue of identified objects was searched by image similarity. The closest entries follow; their photographs are attached after the views, labelled with the same numbers. These are catalogued facts about THOSE objects, not about this one. Compare each visually with the views: where form, decoration and fabric genuinely agree, use the entry as evidence, cite it by accession number in confidenceExplanation and mention it in the timeline if it dates the piece. Where they do not agree, ignore it. Never adopt an identification from similarity alone.
+${matches.map(referenceLine).join('\n')}` : '';
+
+export const buildAnalysisPrompt = (mode: ArtifactMode, context: string, roles: ViewRole[] = ['front'], references: ReferenceMatch[] = []): string =>
+  viewsPreamble(roles) + (mode === 'new' ? modernObjectPrompt(context) : archaeologyPrompt(context)) + referencesPostscript(references) + alternativesPostscript(mode) + confidencePostscript(mode);
+
+const HOTSPOT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    x: { type: Type.NUMBER },
+    y: { type: Type.NUMBER },
+    label: { type: Type.STRING },
+    detail: { type: Type.STRING },
+    view: { type: Type.INTEGER },
+  },
+  required: ['x', 'y', 'label', 'detail']
+};
+
+export const buildAnalysisSchema = (mode: ArtifactMode) => ({
+  type: Type.OBJECT,
+  properties: {
+    identification: mode === 'new' ? MODERN_IDENTIFICATION : ANTIQUE_IDENTIFICATION,
+    damageAnalysis: {
+      type: Type.OBJECT,
+      properties: {
+        description: { type: Type.STRING },
+        missingSections: { type: Type.STRING },
+        regions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: ['fracture', 'erosion', 'loss', 'discoloration'] },
+              severity: { type: Type.STRING, enum: ['minor', 'moderate', 'severe'] },
+              label: { type: Type.STRING },
+              points: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    x: { type: Type.NUMBER },
+                    y: { type: Type.NUMBER },
+                  },
+                  required: ['x', 'y']
+                }
+              }
+            },
+            required: ['type', 'severity', 'label', 'points']
+          }
+        }
+      },
+      required: ['description', 'missingSections', 'regions']
+    },
+    pastReconstruction: {
+      type: Type.OBJECT,
+      properties: {
+        description: { type: Type.STRING },
+        visualPrompt: { type: Type.STRING },
+        hotspots: { type: Type.ARRAY, items: HOTSPOT_SCHEMA }
+      },
+      required: ['description', 'visualPrompt', 'hotspots']
+    },
+    modernRestoration: {
+      type: Type.OBJECT,
+      properties: {
+        description: { type: Type.STRING },
+        visualPrompt: { type: Type.STRING },
+      },
+      required: ['description', 'visualPrompt']
+    },
+    timeline: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          year: { type: Type.STRING },
+          event: { type: Type.STRING },
+        },
+        required: ['year', 'event']
+      }
+    },
+    confidenceScore: { type: Type.NUMBER },
+    confidenceExplanation: { type: Type.STRING },
+    confidenceBreakdown: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dimension: { type: Type.STRING, enum: CONFIDENCE_DIMENSIONS },
+          score: { type: Type.NUMBER },
+          evidence: { type: Type.STRING },
+        },
+        required: ['dimension', 'score', 'evidence']
+      }
+    },
+    assumptions: { type: Type.STRING },
+    curatorNarrative: { type: Type.STRING },
+    alternatives: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          identification: mode === 'new' ? MODERN_IDENTIFICATION : ANTIQUE_IDENTIFICATION,
+          confidence: { type: Type.NUMBER },
+          rationale: { type: Type.STRING },
+          description: { type: Type.STRING },
+          visualPrompt: { type: Type.STRING },
+          hotspots: { type: Type.ARRAY, items: HOTSPOT_SCHEMA },
+        },
+        required: ['identification', 'confidence', 'rationale', 'visualPrompt']
+      }
+    },
+  },
+  required: ['identification', 'damageAnalysis', 'pastReconstruction', 'modernRestoration', 'timeline', 'confidenceScore', 'confidenceExplanation', 'assumptions', 'curatorNarrative']
+});
+
+export const buildJoinPrompt = (mode: ArtifactMode, context: string, count: number): string =>
+  `You are a ${mode === 'new' ? 'Senior Object Conservator' : 'Senior Forensic Archaeologist'} reassembling a broken ${mode === 'new' ? 'manufactured object' : 'artifact'} from ${count} separate fragment photographs, labelled Fragment 0 to Fragment ${count - 1}.
+
+User Context which might be helpful: "${context}" (Verify this against visual evidence).
+
+Compare break profiles, surface decoration, glaze or patina, wall thickness and curvature to decide which fragments join. Name each edge in that photograph's own frame as it is shown (top, right, bottom or left). Only propose joins you can justify from the images; a fragment may have no join at all.
+
+Required JSON Output:
+{
+  "joins": [ { "a": 0, "aEdge": "top|right|bottom|left", "b": 1, "bEdge": "top|right|bottom|left", "confidence": 0-100, "rationale": "Matching evidence" } ]
+}`;
+
+const SHARD_EDGES = ['top', 'right', 'bottom', 'left'];
+
+export const JOIN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    joins: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          a: { type: Type.INTEGER },
+          aEdge: { type: Type.STRING, enum: SHARD_EDGES },
+          b: { type: Type.INTEGER },
+          bEdge: { type: Type.STRING, enum: SHARD_EDGES },
+          confidence: { type: Type.NUMBER },
+          rationale: { type: Type.STRING },
+        },
+        required: ['a', 'aEdge', 'b', 'bEdge', 'confidence', 'rationale']
+      }
+    }
+  },
+  required: ['joins']
+};
+
+const NARRATIVE_BRIEFS: Record<Exclude<NarrativeAudience, 'tour'>, string> = {
+  children: 'children aged 7 to 11. Use short sentences and everyday words, explain any unfamiliar word in passing, and invite them to look for one detail on the object. 4 to 5 sentences.',
+  general: 'a general museum visitor reading a gallery label. Lead with what the object is and why it matters, avoid jargon, and keep it under 80 words.',
+  specialist: 'specialists such as conservators, curators and researchers. Use precise terminology for material, technique, typology and condition, state the evidence behind each claim and name the main uncertainties. 5 to 7 sentences.',
+  audioDescription: 'blind and partially sighted visitors, as an audio description of the attached reconstruction image. Describe what it shows in a logical order: overall shape and size, then colour, surface, decoration and any figures, then how it differs from the surviving fragment. Be concrete and spatial (left, right, top, base); do not interpret beyond what is visible. 5 to 7 sentences.',
+};
+
+// Hypotheses, sources and hotspot coordinates do not help a retelling, so only the reading itself is sent.
+const narrativeContext = (analysis: ArtifactAnalysis) => JSON.stringify({
+  identification: analysis.identification,
+  damageAnalysis: { missingSections: analysis.damageAnalysis.missingSections },
+  pastReconstruction: { description: analysis.pastReconstruction.description, features: analysis.pastReconstruction.hotspots.filter(h => !h.rejected).map(h => `${h.label}: ${h.detail}`) },
+  modernRestoration: { description: analysis.modernRestoration.description },
+  timeline: analysis.timeline.map(e => `${e.year}: ${e.event}`),
+  confidenceExplanation: analysis.confidenceExplanation,
+  assumptions: analysis.assumptions,
+}, null, 2);
+
+export const buildNarrativePrompt = (mode: ArtifactMode, audience: Exclude<NarrativeAudience, 'tour'>, analysis: ArtifactAnalysis): string =>
+  `You are the ${mode === 'new' ? 'Senior Object Conservator' : 'Senior Forensic Archaeologist'} who produced the analysis below. Retell it for ${NARRATIVE_BRIEFS[audience]}
+
+Analysis:
+${narrativeContext(analysis)}
+
+Stay faithful to the analysis: add no facts, dates or attributions it does not contain, and keep its level of certainty. Return only the text, with no heading, notes or quotation marks.`;
+
+export const buildTranslationPrompt = (language: string, text: string): string =>
+  `Translate this museum tour script into ${language}. Keep it spoken, calm and authoritative, keep proper names, dates and technical terms accurate, and return only the translation with no notes or quotation marks.
+
+${text}`;
+
+/** Analysis fields a follow-up answer may propose new values for. */
+export const REFINABLE_FIELDS = [
+  'identification.type',
+  'identification.era',
+  'identification.civilization',
+  'identification.region',
+  'identification.material',
+  'identification.exactYearRange',
+  'identification.repairMethod',
+  'damageAnalysis.missingSections',
+  'pastReconstruction.description',
+  'modernRestoration.description',
+  'confidenceExplanation',
+  'assumptions',
+];
+
+// Alternatives and rejected hotspots stay out of the chat context; sources are listed separately so they can be cited by number.
+const chatContext = (analysis: ArtifactAnalysis) => {
+  const { alternatives: _alternatives, sources, ...rest } = analysis;
+  return JSON.stringify({ ...rest, pastReconstruction: { ...rest.pastReconstruction, hotspots: rest.pastReconstruction.hotspots.filter(h => !h.rejected) } }, null, 2);
+};
+
+export const buildChatPrompt = (mode: ArtifactMode, analysis: ArtifactAnalysis): string =>
+  `You are the ${mode === 'new' ? 'Senior Object Conservator' : 'Senior Forensic Archaeologist'} who produced the analysis below, answering follow-up questions from a museum visitor or curator about the object in the attached photograph.
+
+Current analysis:
+${chatContext(analysis)}
+
+Numbered sources already cited by the analysis:
+${analysis.sources.length ? analysis.sources.map((s, i) => `[${i + 1}] ${s.title} - ${s.uri}`).join('\n') : '(none)'}
+
+Rules:
+- Answer in "answer", in plain prose of at most 150 words. Base it on the photograph and the analysis, and use Google Search to check claims that go beyond them.
+- Cite the numbered sources above as [1], [2] where they support a statement. Do not invent sources.
+- If the answer shows part of the analysis is wrong or could be more precise, propose the corrected value in "refinements", choosing "field" from: ${REFINABLE_FIELDS.join(', ')}. Give the full new value, not a diff, and a one-sentence "reason". Leave the list empty otherwise.
+- If the question asks what the object or a missing part would have looked like, or asks for a different reconstruction, return "renderPrompt": a complete replacement for pastReconstruction.visualPrompt that follows the same rules. Otherwise omit it.`;
+
+export const CHAT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    refinements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, enum: REFINABLE_FIELDS },
+          value: { type: Type.STRING },
+          reason: { type: Type.STRING },
+        },
+        required: ['field', 'value', 'reason']
+      }
+    },
+    renderPrompt: { type: Type.STRING },
+  },
+  required: ['answer', 'refinements']
+};
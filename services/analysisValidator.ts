@@ -0,0 +1,482 @@
+import { AnalysisDraft, ArtifactAnalysis, ChatRefinement, Citation, ConfidenceDimension, DimensionConfidence, ChatReply, ArtifactIdentification, ArtifactMode, DamagePoint, DamageRegion, DamageSeverity, DamageType, GroundingSource, Hotspot, Hypothesis, ShardEdge, ShardJoin, SourceKind, TimelineEvent } from "../types";
+import { isWebUrl } from "./citations";
+import { CONFIDENCE_DIMENSIONS } from "./analysisPrompts";
+import { stripCodeFence } from "./partialJson";
+
+/** Raised when model output cannot be repaired into a usable ArtifactAnalysis. */
+export class AnalysisValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Model output failed validation: ${issues.join('; ')}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidationResult {
+  analysis: ArtifactAnalysis | null;
+  /** Problems that made the output unusable. */
+  errors: string[];
+  /** Problems that were repaired in place (clamped, defaulted, coerced). */
+  repairs: string[];
+}
+
+export interface ValidationOptions {
+  mode?: ArtifactMode;
+  /** Number of photos sent; hotspot view indices are clamped to this range. */
+  viewCount?: number;
+  /** Record saved by this app: its scores are already 0-100 and are never rescaled from fractions. */
+  stored?: boolean;
+}
+
+type Obj = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Obj =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+class Checker {
+  errors: string[] = [];
+  repairs: string[] = [];
+  readonly rescaleFractions: boolean;
+
+  constructor(rescaleFractions = true) {
+    this.rescaleFractions = rescaleFractions;
+  }
+
+  object(parent: Obj, key: string, path: string): Obj {
+    const value = parent[key];
+    if (isObject(value)) return value;
+    this.errors.push(`${path} must be an object`);
+    return {};
+  }
+
+  requiredString(parent: Obj, key: string, path: string): string {
+    const value = parent[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') {
+      this.repairs.push(`${path} coerced from number`);
+      return String(value);
+    }
+    this.errors.push(`${path} must be a non-empty string`);
+    return '';
+  }
+
+  optionalString(parent: Obj, key: string, path: string, fallback = ''): string {
+    const value = parent[key];
+    if (typeof value === 'string') return value.trim();
+    if (value !== undefined && value !== null) this.repairs.push(`${path} replaced with default`);
+    return fallback;
+  }
+
+  /**
+   * Accepts numbers, numeric strings ("85%") and, when `fractionScale` is set, fractions strictly
+   * between 0 and 1. A whole 1 is taken as 1%, not as a fraction.
+   */
+  number(value: unknown, path: string, min: number, max: number, fractionScale = false): number | null {
+    let n = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(n)) return null;
+    if (typeof value === 'string') this.repairs.push(`${path} parsed from string`);
+    if (fractionScale && this.rescaleFractions && n > 0 && n < 1) {
+      n = n * max;
+      this.repairs.push(`${path} rescaled from fraction`);
+    }
+    const clamped = clamp(n, min, max);
+    if (clamped !== n) this.repairs.push(`${path} clamped to ${min}-${max}`);
+    return clamped;
+  }
+
+  array(parent: Obj, key: string, path: string): unknown[] {
+    const value = parent[key];
+    if (Array.isArray(value)) return value;
+    if (value !== undefined && value !== null) this.repairs.push(`${path} replaced with empty list`);
+    return [];
+  }
+}
+
+const validateHotspots = (c: Checker, items: unknown[], path: string, viewCount: number): Hotspot[] =>
+  items.flatMap((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item)) {
+      c.repairs.push(`${itemPath} dropped (not an object)`);
+      return [];
+    }
+    const x = c.number(item.x, `${itemPath}.x`, 0, 100);
+    const y = c.number(item.y, `${itemPath}.y`, 0, 100);
+    const label = typeof item.label === 'string' ? item.label.trim() : '';
+    if (x === null || y === null || !label) {
+      c.repairs.push(`${itemPath} dropped (missing coordinates or label)`);
+      return [];
+    }
+    const hotspot: Hotspot = { x, y, label, detail: c.optionalString(item, 'detail', `${itemPath}.detail`) };
+    if (item.view !== undefined && item.view !== null) {
+      const view = c.number(item.view, `${itemPath}.view`, 0, Math.max(0, viewCount - 1));
+      hotspot.view = view === null ? 0 : Math.round(view);
+    }
+    // Review flags only ever come from saved records; model output never sets them.
+    if (item.curated === true) hotspot.curated = true;
+    if (item.rejected === true) hotspot.rejected = true;
+    return [hotspot];
+  });
+
+const DAMAGE_TYPES: DamageType[] = ['fracture', 'erosion', 'loss', 'discoloration'];
+const DAMAGE_SEVERITIES: DamageSeverity[] = ['minor', 'moderate', 'severe'];
+
+const validateDamageRegions = (c: Checker, items: unknown[], path: string): DamageRegion[] =>
+  items.flatMap((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item) || !Array.isArray(item.points)) {
+      c.repairs.push(`${itemPath} dropped (no points)`);
+      return [];
+    }
+    let points: DamagePoint[] = item.points.flatMap((p, j) => {
+      if (!isObject(p)) return [];
+      const x = c.number(p.x, `${itemPath}.points[${j}].x`, 0, 100);
+      const y = c.number(p.y, `${itemPath}.points[${j}].y`, 0, 100);
+      return x === null || y === null ? [] : [{ x, y }];
+    });
+    // Two points are read as opposite corners of a box.
+    if (points.length === 2) {
+      const [a, b] = points;
+      points = [{ x: a.x, y: a.y }, { x: b.x, y: a.y }, { x: b.x, y: b.y }, { x: a.x, y: b.y }];
+      c.repairs.push(`${itemPath} expanded from box corners`);
+    }
+    if (points.length < 3) {
+      c.repairs.push(`${itemPath} dropped (fewer than 3 valid points)`);
+      return [];
+    }
+    const type = String(item.type ?? '').toLowerCase() as DamageType;
+    const severity = String(item.severity ?? '').toLowerCase() as DamageSeverity;
+    if (!DAMAGE_TYPES.includes(type)) c.repairs.push(`${itemPath}.type defaulted to loss`);
+    if (!DAMAGE_SEVERITIES.includes(severity)) c.repairs.push(`${itemPath}.severity defaulted to moderate`);
+    return [{
+      type: DAMAGE_TYPES.includes(type) ? type : 'loss',
+      severity: DAMAGE_SEVERITIES.includes(severity) ? severity : 'moderate',
+      label: c.optionalString(item, 'label', `${itemPath}.label`),
+      points,
+    }];
+  });
+
+const validateTimeline = (c: Checker, items: unknown[], path: string): TimelineEvent[] =>
+  items.flatMap((item, i) => {
+    if (isObject(item) && typeof item.event === 'string' && item.event.trim()) {
+      const event: TimelineEvent = { year: item.year == null ? '' : String(item.year).trim(), event: item.event.trim() };
+      if (typeof item.note === 'string' && item.note.trim()) event.note = item.note.trim();
+      return [event];
+    }
+    c.repairs.push(`${path}[${i}] dropped (no event text)`);
+    return [];
+  });
+
+const SOURCE_KINDS: SourceKind[] = ['museum', 'academic', 'encyclopedia', 'blog', 'other'];
+
+/**
+ * Keeps sources with an http(s) address; anything else could run script where the list is rendered as
+ * links. `newIndex` maps each input position to its position in `sources`, or -1 if it was dropped.
+ */
+const validateSources = (c: Checker, items: unknown[]): { sources: GroundingSource[]; newIndex: number[] } => {
+  const sources: GroundingSource[] = [];
+  const newIndex = items.map((item, i) => {
+    if (!isObject(item) || typeof item.uri !== 'string' || !item.uri) return -1;
+    if (!isWebUrl(item.uri)) {
+      c.repairs.push(`sources[${i}] dropped (not an http(s) address)`);
+      return -1;
+    }
+    const source: GroundingSource = { title: typeof item.title === 'string' && item.title ? item.title : item.uri, uri: item.uri.trim() };
+    if (SOURCE_KINDS.includes(item.kind as SourceKind)) source.kind = item.kind as SourceKind;
+    return sources.push(source) - 1;
+  });
+  return { sources, newIndex };
+};
+
+// Citations are attached after validation from grounding metadata; this only keeps stored ones that still point at a source.
+const validateCitations = (items: unknown, newIndex: number[]): Citation[] | undefined =>
+  Array.isArray(items)
+    ? items.flatMap(item =>
+        isObject(item) && typeof item.field === 'string' && Array.isArray(item.sources)
+          ? [{ field: item.field, sources: item.sources.flatMap(i => (Number.isInteger(i) && newIndex[i] >= 0 ? [newIndex[i]] : [])) }]
+          : []
+      )
+    : undefined;
+
+const validateIdentification = (c: Checker, id: Obj, mode: ArtifactMode): ArtifactIdentification => {
+  if (mode === 'new') {
+    const manufacturer = c.optionalString(id, 'manufacturer', 'identification.manufacturer', 'Unattributed') || 'Unattributed';
+    const productionDecade = c.requiredString(id, 'productionDecade', 'identification.productionDecade');
+    return {
+      type: c.requiredString(id, 'type', 'identification.type'),
+      era: productionDecade,
+      civilization: manufacturer,
+      region: c.optionalString(id, 'region', 'identification.region', 'Unknown'),
+      material: c.optionalString(id, 'material', 'identification.material', 'Unknown'),
+      exactYearRange: productionDecade,
+      manufacturer,
+      productionDecade,
+      repairMethod: c.optionalString(id, 'repairMethod', 'identification.repairMethod', 'Not specified'),
+    };
+  }
+  return {
+    type: c.requiredString(id, 'type', 'identification.type'),
+    era: c.requiredString(id, 'era', 'identification.era'),
+    civilization: c.requiredString(id, 'civilization', 'identification.civilization'),
+    region: c.optionalString(id, 'region', 'identification.region', 'Unknown'),
+    material: c.optionalString(id, 'material', 'identification.material', 'Unknown'),
+    exactYearRange: c.optionalString(id, 'exactYearRange', 'identification.exactYearRange'),
+  };
+};
+
+const MAX_ALTERNATIVES = 3;
+
+// Each alternative is checked on its own; one that is unusable is dropped without failing the analysis.
+const validateAlternatives = (c: Checker, items: unknown[], mode: ArtifactMode, viewCount: number): Hypothesis[] =>
+  items.slice(0, MAX_ALTERNATIVES).flatMap((item, i) => {
+    const path = `alternatives[${i}]`;
+    if (!isObject(item)) {
+      c.repairs.push(`${path} dropped (not an object)`);
+      return [];
+    }
+    const sub = new Checker(c.rescaleFractions);
+    const hypothesis: Hypothesis = {
+      identification: validateIdentification(sub, sub.object(item, 'identification', `${path}.identification`), mode),
+      confidence: Math.round(sub.number(item.confidence, `${path}.confidence`, 0, 100, true) ?? 0),
+      rationale: sub.optionalString(item, 'rationale', `${path}.rationale`),
+      description: sub.optionalString(item, 'description', `${path}.description`),
+      visualPrompt: sub.requiredString(item, 'visualPrompt', `${path}.visualPrompt`),
+      hotspots: validateHotspots(sub, sub.array(item, 'hotspots', `${path}.hotspots`), `${path}.hotspots`, viewCount),
+    };
+    if (sub.errors.length) {
+      c.repairs.push(`${path} dropped (${sub.errors.join('; ')})`);
+      return [];
+    }
+    c.repairs.push(...sub.repairs);
+    return [hypothesis];
+  }).sort((a, b) => b.confidence - a.confidence);
+
+// Agreement and answers only exist on stored analyses that went through self-consistency runs.
+const validateBreakdown = (c: Checker, items: unknown[]): DimensionConfidence[] => {
+  const seen = new Set<ConfidenceDimension>();
+  return items.flatMap((item, i) => {
+    const path = `confidenceBreakdown[${i}]`;
+    if (!isObject(item) || !CONFIDENCE_DIMENSIONS.includes(item.dimension as ConfidenceDimension) || seen.has(item.dimension as ConfidenceDimension)) {
+      c.repairs.push(`${path} dropped (unknown or repeated dimension)`);
+      return [];
+    }
+    const dimension = item.dimension as ConfidenceDimension;
+    seen.add(dimension);
+    const entry: DimensionConfidence = {
+      dimension,
+      score: Math.round(c.number(item.score, `${path}.score`, 0, 100, true) ?? 0),
+      evidence: c.optionalString(item, 'evidence', `${path}.evidence`),
+    };
+    if (typeof item.agreement === 'number') entry.agreement = Math.round(Math.min(100, Math.max(0, item.agreement)));
+    if (Array.isArray(item.answers)) {
+      entry.answers = item.answers.flatMap(a => (isObject(a) && typeof a.value === 'string' && typeof a.runs === 'number' ? [{ value: a.value, runs: a.runs }] : []));
+    }
+    return [entry];
+  }).sort((a, b) => CONFIDENCE_DIMENSIONS.indexOf(a.dimension) - CONFIDENCE_DIMENSIONS.indexOf(b.dimension));
+};
+
+/**
+ * Runtime check for the full ArtifactAnalysis shape. Numeric ranges are clamped and optional
+ * fields defaulted; only missing core content (identification, prompts, narrative) is fatal.
+ */
+export const validateAnalysis = (raw: unknown, { mode = 'old', viewCount = 1, stored = false }: ValidationOptions = {}): ValidationResult => {
+  const c = new Checker(!stored);
+  if (!isObject(raw)) {
+    return { analysis: null, errors: ['response must be a JSON object'], repairs: [] };
+  }
+
+  const id = c.object(raw, 'identification', 'identification');
+  const damage = isObject(raw.damageAnalysis) ? raw.damageAnalysis : {};
+  const past = c.object(raw, 'pastReconstruction', 'pastReconstruction');
+  const modern = isObject(raw.modernRestoration) ? raw.modernRestoration : {};
+
+  const analysis: ArtifactAnalysis = {
+    mode,
+    identification: validateIdentification(c, id, mode),
+    damageAnalysis: {
+      description: c.optionalString(damage, 'description', 'damageAnalysis.description'),
+      missingSections: c.optionalString(damage, 'missingSections', 'damageAnalysis.missingSections'),
+      regions: validateDamageRegions(c, c.array(damage, 'regions', 'damageAnalysis.regions'), 'damageAnalysis.regions'),
+    },
+    pastReconstruction: {
+      description: c.optionalString(past, 'description', 'pastReconstruction.description'),
+      visualPrompt: c.requiredString(past, 'visualPrompt', 'pastReconstruction.visualPrompt'),
+      hotspots: validateHotspots(c, c.array(past, 'hotspots', 'pastReconstruction.hotspots'), 'pastReconstruction.hotspots', viewCount),
+    },
+    modernRestoration: {
+      description: c.optionalString(modern, 'description', 'modernRestoration.description'),
+      visualPrompt: c.optionalString(modern, 'visualPrompt', 'modernRestoration.visualPrompt'),
+    },
+    timeline: validateTimeline(c, c.array(raw, 'timeline', 'timeline'), 'timeline'),
+    confidenceScore: 0,
+    confidenceExplanation: c.optionalString(raw, 'confidenceExplanation', 'confidenceExplanation'),
+    assumptions: c.optionalString(raw, 'assumptions', 'assumptions', 'None stated.'),
+    curatorNarrative: c.requiredString(raw, 'curatorNarrative', 'curatorNarrative'),
+    sources: [],
+    alternatives: validateAlternatives(c, c.array(raw, 'alternatives', 'alternatives'), mode, viewCount),
+  };
+
+  const breakdown = c.array(raw, 'confidenceBreakdown', 'confidenceBreakdown');
+  if (breakdown.length) analysis.confidenceBreakdown = validateBreakdown(c, breakdown);
+  if (typeof raw.consistencyRuns === 'number' && raw.consistencyRuns > 1) analysis.consistencyRuns = Math.round(raw.consistencyRuns);
+
+  const { sources, newIndex } = validateSources(c, Array.isArray(raw.sources) ? raw.sources : []);
+  analysis.sources = sources;
+  const citations = validateCitations(raw.citations, newIndex);
+  if (citations) analysis.citations = citations;
+
+  const score = c.number(raw.confidenceScore, 'confidenceScore', 0, 100, true);
+  if (score === null) {
+    c.repairs.push('confidenceScore defaulted to 0');
+  } else {
+    analysis.confidenceScore = Math.round(score);
+  }
+
+  if (!analysis.modernRestoration.visualPrompt) {
+    analysis.modernRestoration.visualPrompt = `${analysis.pastReconstruction.visualPrompt} Displayed restored in a modern museum spotlight.`;
+    c.repairs.push('modernRestoration.visualPrompt derived from pastReconstruction');
+  }
+
+  return c.errors.length
+    ? { analysis: null, errors: c.errors, repairs: c.repairs }
+    : { analysis, errors: [], repairs: c.repairs };
+};
+
+const draftString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+/**
+ * Lenient view of a partially streamed analysis for progressive display. Nothing here is validated;
+ * the finished response still goes through validateAnalysis.
+ */
+export const draftAnalysis = (raw: unknown, mode: ArtifactMode = 'old'): AnalysisDraft => {
+  const root = isObject(raw) ? raw : {};
+  const id = isObject(root.identification) ? root.identification : {};
+  const past = isObject(root.pastReconstruction) ? root.pastReconstruction : {};
+  const identification: Partial<ArtifactIdentification> = {
+    type: draftString(id.type),
+    era: draftString(mode === 'new' ? id.productionDecade : id.era),
+    civilization: draftString(mode === 'new' ? id.manufacturer : id.civilization),
+    region: draftString(id.region),
+    material: draftString(id.material),
+    exactYearRange: draftString(id.exactYearRange),
+    repairMethod: draftString(id.repairMethod),
+  };
+  return {
+    identification,
+    timeline: (Array.isArray(root.timeline) ? root.timeline : []).flatMap(item =>
+      isObject(item) && draftString(item.event) ? [{ year: draftString(item.year) ?? '', event: item.event as string }] : []
+    ),
+    description: draftString(past.description),
+    curatorNarrative: draftString(root.curatorNarrative),
+  };
+};
+
+/** Parses raw model text and validates it in one step; JSON syntax errors are reported as validation errors. */
+export const parseAnalysis = (text: string, options: ValidationOptions = {}): ValidationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFence(text));
+  } catch (err: any) {
+    return { analysis: null, errors: [`response is not valid JSON (${err.message})`], repairs: [] };
+  }
+  return validateAnalysis(raw, options);
+};
+
+export interface JoinValidationResult {
+  joins: ShardJoin[];
+  errors: string[];
+  repairs: string[];
+}
+
+const SHARD_EDGES: ShardEdge[] = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Parses and checks proposed fragment joins. Individual bad joins (unknown fragment, self-join,
+ * duplicate pair) are dropped rather than failing the whole proposal.
+ */
+export const parseJoins = (text: string, fragmentCount: number): JoinValidationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFence(text));
+  } catch (err: any) {
+    return { joins: [], errors: [`response is not valid JSON (${err.message})`], repairs: [] };
+  }
+  if (!isObject(raw)) return { joins: [], errors: ['response must be a JSON object'], repairs: [] };
+
+  const c = new Checker();
+  const seen = new Set<string>();
+  const joins = c.array(raw, 'joins', 'joins').flatMap((item, i): ShardJoin[] => {
+    const path = `joins[${i}]`;
+    if (!isObject(item)) {
+      c.repairs.push(`${path} dropped (not an object)`);
+      return [];
+    }
+    const a = c.number(item.a, `${path}.a`, 0, fragmentCount - 1);
+    const b = c.number(item.b, `${path}.b`, 0, fragmentCount - 1);
+    const aEdge = String(item.aEdge ?? '').toLowerCase() as ShardEdge;
+    const bEdge = String(item.bEdge ?? '').toLowerCase() as ShardEdge;
+    if (a === null || b === null || !SHARD_EDGES.includes(aEdge) || !SHARD_EDGES.includes(bEdge)) {
+      c.repairs.push(`${path} dropped (missing fragment or edge)`);
+      return [];
+    }
+    const key = [Math.round(a), Math.round(b)].sort().join('-');
+    if (Math.round(a) === Math.round(b) || seen.has(key)) {
+      c.repairs.push(`${path} dropped (self-join or duplicate pair)`);
+      return [];
+    }
+    seen.add(key);
+    const confidence = c.number(item.confidence, `${path}.confidence`, 0, 100, true);
+    return [{
+      a: Math.round(a),
+      aEdge,
+      b: Math.round(b),
+      bEdge,
+      confidence: Math.round(confidence ?? 0),
+      rationale: c.optionalString(item, 'rationale', `${path}.rationale`),
+    }];
+  });
+
+  return { joins: joins.sort((x, y) => y.confidence - x.confidence), errors: [], repairs: c.repairs };
+};
+
+export interface ChatValidationResult {
+  reply: Omit<ChatReply, 'sources'> | null;
+  errors: string[];
+  repairs: string[];
+}
+
+/** Parses a follow-up answer. Refinements naming a field outside `fields` are dropped, never applied. */
+export const parseChatReply = (text: string, fields: string[]): ChatValidationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFence(text));
+  } catch (err: any) {
+    return { reply: null, errors: [`response is not valid JSON (${err.message})`], repairs: [] };
+  }
+  if (!isObject(raw)) return { reply: null, errors: ['response must be a JSON object'], repairs: [] };
+
+  const c = new Checker();
+  const answer = c.requiredString(raw, 'answer', 'answer');
+  const refinements = c.array(raw, 'refinements', 'refinements').flatMap((item, i): ChatRefinement[] => {
+    const path = `refinements[${i}]`;
+    if (!isObject(item) || typeof item.field !== 'string' || !fields.includes(item.field)) {
+      c.repairs.push(`${path} dropped (unknown field)`);
+      return [];
+    }
+    const value = c.optionalString(item, 'value', `${path}.value`);
+    if (!value) {
+      c.repairs.push(`${path} dropped (empty value)`);
+      return [];
+    }
+    return [{ field: item.field, value, reason: c.optionalString(item, 'reason', `${path}.reason`) }];
+  });
+  const renderPrompt = c.optionalString(raw, 'renderPrompt', 'renderPrompt');
+
+  return c.errors.length
+    ? { reply: null, errors: c.errors, repairs: c.repairs }
+    : { reply: { text: answer, refinements, ...(renderPrompt && { renderPrompt }) }, errors: [], repairs: c.repairs };
+};
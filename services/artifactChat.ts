@@ -0,0 +1,40 @@
+import { ArtifactIdentification, ChatMessage, ReconstructionData } from "../types";
+import { chatAboutArtifact } from "./geminiService";
+import { editIdentification, editValue } from "./curatorReview";
+
+// Follow-up conversation about a finished scan. The thread is stored on the record so it is archived
+// and exported with the case; proposed refinements only reach the analysis when someone applies them.
+
+export const askAboutArtifact = async (data: ReconstructionData, question: string): Promise<ChatMessage> => {
+  const analysis = data.analysis;
+  if (!analysis) throw new Error("Cannot ask about an artifact before the analysis is complete.");
+  const reply = await chatAboutArtifact(analysis, data.originalImage, data.chat ?? [], question, analysis.mode ?? 'old');
+  return { role: 'model', at: Date.now(), ...reply };
+};
+
+export const appendChatMessage = (data: ReconstructionData, message: ChatMessage): ReconstructionData => ({
+  ...data,
+  chat: [...(data.chat ?? []), message],
+});
+
+const updateMessage = (data: ReconstructionData, index: number, update: (message: ChatMessage) => ChatMessage): ReconstructionData => ({
+  ...data,
+  chat: (data.chat ?? []).map((message, i) => (i === index ? update(message) : message)),
+});
+
+/** Writes a proposed value into the analysis as a curator edit, so it shows in the review history. */
+export const applyRefinement = (data: ReconstructionData, messageIndex: number, refinementIndex: number, reviewer?: string): ReconstructionData => {
+  const refinement = data.chat?.[messageIndex]?.refinements?.[refinementIndex];
+  if (!data.analysis || !refinement || refinement.applied) return data;
+  const [group, key] = refinement.field.split('.');
+  const edited = group === 'identification' && key
+    ? editIdentification(data, key as keyof ArtifactIdentification, refinement.value, reviewer)
+    : editValue(data, `analysis.${refinement.field}`, refinement.value, reviewer);
+  return updateMessage(edited, messageIndex, message => ({
+    ...message,
+    refinements: message.refinements?.map((r, i) => (i === refinementIndex ? { ...r, applied: true } : r)),
+  }));
+};
+
+export const markRendered = (data: ReconstructionData, messageIndex: number): ReconstructionData =>
+  updateMessage(data, messageIndex, message => ({ ...message, rendered: true }));
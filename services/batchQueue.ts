@@ -0,0 +1,29 @@
+export interface QueueControl {
+  /** Checked before each item is started; returning true stops scheduling new work. */
+  isPaused: () => boolean;
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight. Worker errors are the worker's
+ * responsibility to record; a rejection here only stops that lane, never the whole queue.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  control?: QueueControl
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !control?.isPaused()) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (err) {
+        console.error('Batch worker failed', err);
+      }
+    }
+  };
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+};
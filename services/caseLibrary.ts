@@ -0,0 +1,94 @@
+import { CaseRecord, ReconstructionData } from "../types";
+
+const DB_NAME = 'artifact-reconstruct';
+const DB_VERSION = 1;
+const STORE = 'cases';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Case library unavailable: this browser has no IndexedDB support."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `case-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const saveCase = async (data: ReconstructionData, context: string, id?: string): Promise<CaseRecord> => {
+  const existing = id ? await getCase(id) : undefined;
+  const record: CaseRecord = {
+    id: existing?.id ?? createId(),
+    createdAt: existing?.createdAt ?? Date.now(),
+    context,
+    data,
+  };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+/** Stores records as-is, keeping their ids so re-importing a shared file updates rather than duplicates. */
+export const importCases = async (records: CaseRecord[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    records.forEach(record => tx.objectStore(STORE).put(record));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getCase = (id: string): Promise<CaseRecord | undefined> =>
+  withStore<CaseRecord | undefined>('readonly', store => store.get(id));
+
+export const listCases = async (): Promise<CaseRecord[]> => {
+  const records = await withStore<CaseRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCase = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+/** Case-insensitive match on civilization, era and material; every whitespace-separated term must hit. */
+export const filterCases = (records: CaseRecord[], query: string): CaseRecord[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return records;
+  return records.filter(record => {
+    const id = record.data.analysis?.identification;
+    if (!id) return false;
+    const haystack = [id.civilization, id.era, id.material].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
@@ -0,0 +1,115 @@
+import { ArtifactAnalysis, Citation, GroundingSource, SourceKind } from "../types";
+
+// Turns raw search grounding into ranked sources and per-claim citations. The backend reports which
+// stretches of its response each source supports; because the response is JSON, those stretches are
+// matched back to the analysis fields whose values they contain.
+
+/** Stretch of the response text and the grounding chunks that support it. */
+export interface ClaimSupport {
+  text: string;
+  chunks: number[];
+}
+
+export const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  museum: 'Museum Collection',
+  academic: 'Academic',
+  encyclopedia: 'Encyclopedia',
+  blog: 'Blog / Forum',
+  other: 'Web',
+};
+
+/** Most authoritative first; unclassified pages rank above blogs and forums. */
+const KIND_ORDER: SourceKind[] = ['museum', 'academic', 'encyclopedia', 'other', 'blog'];
+
+const KIND_PATTERNS: [SourceKind, RegExp][] = [
+  ['museum', /museum|musee|museo|collections?\.|metmuseum|britishmuseum|louvre|rijksmuseum|vam\.ac\.uk|si\.edu|getty\.edu|hermitage|ashmolean|fitzmuseum|europeana/],
+  ['academic', /\.edu\b|\.ac\.[a-z]{2}\b|jstor|doi\.org|academia\.edu|researchgate|springer|tandfonline|cambridge\.org|academic\.oup|sciencedirect|persee\.fr|hal\.science|journals?\.|scholar\./],
+  ['encyclopedia', /wikipedia|britannica|worldhistory\.org|encyclopedia|wikidata|oxfordreference/],
+  ['blog', /blog|medium\.com|substack|wordpress|tumblr|reddit|quora|pinterest|facebook|instagram|forum|ebay|etsy/],
+];
+
+/** Only http(s) addresses are ever rendered as links; anything else (javascript:, data:) is shown as text. */
+export const isWebUrl = (uri: string): boolean => /^https?:\/\//i.test(uri.trim());
+
+// Search grounding often returns redirect links titled with the bare domain, so the title is checked too.
+export const classifySource = (source: GroundingSource): SourceKind => {
+  const haystack = `${source.uri} ${source.title}`.toLowerCase();
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(haystack))?.[0] ?? 'other';
+};
+
+const sourceKey = (value: string) =>
+  value.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Every field a citation can attach to, with the JSON key its value is written under. */
+const citableClaims = (analysis: ArtifactAnalysis): { field: string; key: string; value: string }[] => [
+  ...Object.entries(analysis.identification).flatMap(([key, value]) =>
+    typeof value === 'string' && value ? [{ field: `identification.${key}`, key, value }] : []
+  ),
+  { field: 'damageAnalysis.description', key: 'description', value: analysis.damageAnalysis.description },
+  { field: 'pastReconstruction.description', key: 'description', value: analysis.pastReconstruction.description },
+  { field: 'modernRestoration.description', key: 'description', value: analysis.modernRestoration.description },
+  { field: 'confidenceExplanation', key: 'confidenceExplanation', value: analysis.confidenceExplanation },
+  ...analysis.timeline.map((event, i) => ({ field: `timeline.${i}`, key: 'event', value: event.event })),
+];
+
+// Short values such as "Roman" only count when the segment also names their key, so a support for a
+// sentence that merely mentions the word does not cite the field.
+const supportsClaim = (segment: string, key: string, value: string) => {
+  const seg = normalize(segment);
+  const val = normalize(value);
+  if (!seg || !val) return false;
+  if (seg.includes(val)) return val.length >= 12 || seg.includes(normalize(key));
+  return seg.length >= 15 && val.includes(seg);
+};
+
+/**
+ * Classifies, de-duplicates and ranks the sources, then maps each support onto the fields it backs.
+ * `chunkSources` is indexed like the backend's grounding chunks; null where a chunk is not a web page.
+ */
+export const groundAnalysis = (analysis: ArtifactAnalysis, chunkSources: (GroundingSource | null)[], supports: ClaimSupport[]): ArtifactAnalysis => {
+  const unique: GroundingSource[] = [];
+  const seen = new Map<string, number>();
+  const chunkToUnique = chunkSources.map(source => {
+    if (!source) return -1;
+    const keys = [sourceKey(source.uri), `title:${source.title.toLowerCase()}`];
+    const existing = keys.map(k => seen.get(k)).find(i => i !== undefined);
+    const index = existing ?? unique.push({ ...source, kind: source.kind ?? classifySource(source) }) - 1;
+    keys.forEach(k => seen.set(k, index));
+    return index;
+  });
+
+  const order = unique.map((_, i) => i).sort((a, b) => KIND_ORDER.indexOf(unique[a].kind!) - KIND_ORDER.indexOf(unique[b].kind!) || a - b);
+  const rankOf = new Map(order.map((original, rank) => [original, rank]));
+
+  const claims = citableClaims(analysis);
+  const cited = new Map<string, Set<number>>();
+  supports.forEach(support => {
+    const ranks = support.chunks.map(c => chunkToUnique[c]).filter(i => i !== undefined && i >= 0).map(i => rankOf.get(i)!);
+    if (!ranks.length) return;
+    claims.filter(claim => supportsClaim(support.text, claim.key, claim.value)).forEach(claim => {
+      const set = cited.get(claim.field) ?? new Set<number>();
+      ranks.forEach(r => set.add(r));
+      cited.set(claim.field, set);
+    });
+  });
+
+  return {
+    ...analysis,
+    sources: order.map(i => unique[i]),
+    citations: supports.length
+      ? claims.filter(claim => cited.has(claim.field)).map(claim => ({ field: claim.field, sources: [...cited.get(claim.field)!].sort((a, b) => a - b) }))
+      : undefined,
+  };
+};
+
+/** 1-based source numbers backing a field; null when the analysis carries no citation map at all. */
+export const citationNumbers = (analysis: ArtifactAnalysis, field: string): number[] | null => {
+  if (!analysis.citations) return null;
+  return (analysis.citations.find(c => c.field === field)?.sources ?? []).map(i => i + 1);
+};
+
+/** Drops citations of fields whose text was replaced; `identification` also covers every `identification.*` field. */
+export const withoutCitationsFor = (citations: Citation[] | undefined, fields: string[]): Citation[] | undefined =>
+  citations?.filter(c => !fields.some(field => c.field === field || c.field.startsWith(`${field}.`)));
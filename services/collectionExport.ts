@@ -0,0 +1,227 @@
+import { CaseRecord, ReconstructionData, TimelineEvent } from "../types";
+import { editLabel, reviewOf } from "./curatorReview";
+import { downloadFile } from "./download";
+import { validateRecordData } from "./recordValidator";
+
+// Mappings from saved cases to collection-management formats, plus the native JSON round-trip.
+
+export type ExportFormat = 'dublin-core' | 'json-ld' | 'csv' | 'native';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'dublin-core', label: 'Dublin Core XML', extension: 'xml', mime: 'application/xml' },
+  { id: 'json-ld', label: 'CIDOC-CRM JSON-LD', extension: 'jsonld', mime: 'application/ld+json' },
+  { id: 'csv', label: 'CSV Table', extension: 'csv', mime: 'text/csv' },
+  { id: 'native', label: 'Native JSON (re-importable)', extension: 'json', mime: 'application/json' },
+];
+
+const NATIVE_FORMAT = 'artifact-reconstruct';
+const NATIVE_VERSION = 1;
+
+type ImageAsset = 'original' | 'present' | 'past';
+
+const IMAGE_FIELDS: Record<ImageAsset, keyof ReconstructionData> = {
+  original: 'originalImage',
+  present: 'presentImage',
+  past: 'pastImage',
+};
+
+const IMAGE_LABELS: Record<ImageAsset, string> = {
+  original: 'Found fragment (photograph)',
+  present: 'Restored today (AI reconstruction)',
+  past: 'Original state (AI reconstruction)',
+};
+
+const caseUri = (record: CaseRecord) => `urn:artifact-reconstruct:case:${record.id}`;
+
+// Images are referenced by URN so exports stay small; the native JSON carries the actual pixels.
+const imageRefs = (record: CaseRecord) =>
+  (Object.keys(IMAGE_FIELDS) as ImageAsset[])
+    .filter(asset => record.data[IMAGE_FIELDS[asset]])
+    .map(asset => ({ asset, uri: `${caseUri(record)}:image:${asset}`, label: IMAGE_LABELS[asset] }));
+
+const eventText = (e: TimelineEvent) => (e.note ? `${e.event} (curator note: ${e.note})` : e.event);
+
+const reviewText = (record: CaseRecord) => {
+  const review = reviewOf(record.data);
+  return review.reviewer && review.status !== 'draft' ? `${review.status} by ${review.reviewer}` : review.status;
+};
+
+const escapeXml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const dcElement = (tag: string, value: string | undefined) =>
+  value ? `    <${tag}>${escapeXml(value)}</${tag}>` : '';
+
+const toDublinCoreRecord = (record: CaseRecord): string => {
+  const analysis = record.data.analysis!;
+  const id = analysis.identification;
+  return [
+    '  <oai_dc:dc>',
+    dcElement('dc:identifier', caseUri(record)),
+    dcElement('dc:title', id.type),
+    dcElement('dc:type', 'PhysicalObject'),
+    dcElement('dc:subject', id.type),
+    dcElement(analysis.mode === 'new' ? 'dc:creator' : 'dc:subject', id.civilization),
+    dcElement('dc:date', id.exactYearRange || id.era),
+    dcElement('dcterms:temporal', id.era),
+    dcElement('dcterms:spatial', id.region),
+    dcElement('dcterms:medium', id.material),
+    dcElement('dc:description', analysis.pastReconstruction.description),
+    dcElement('dc:description', `Condition: ${analysis.damageAnalysis.description}`),
+    dcElement('dc:description', `Curator review: ${reviewText(record)}`),
+    ...analysis.timeline.map(e => dcElement('dcterms:provenance', `${e.year}: ${eventText(e)}`)),
+    ...analysis.sources.map(s => dcElement('dc:source', s.uri)),
+    ...imageRefs(record).map(ref => dcElement('dcterms:hasFormat', ref.uri)),
+    dcElement('dcterms:created', new Date(record.createdAt).toISOString()),
+    '  </oai_dc:dc>',
+  ].filter(Boolean).join('\n');
+};
+
+export const toDublinCore = (records: CaseRecord[]): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<records xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+${records.filter(r => r.data.analysis).map(toDublinCoreRecord).join('\n')}
+</records>
+`;
+
+const label = (type: string, value: string) => ({ '@type': type, 'rdfs:label': value });
+
+const toCidocObject = (record: CaseRecord) => {
+  const analysis = record.data.analysis!;
+  const id = analysis.identification;
+  const uri = caseUri(record);
+  return {
+    '@id': uri,
+    '@type': 'crm:E22_Human-Made_Object',
+    'rdfs:label': id.type,
+    'crm:P2_has_type': label('crm:E55_Type', id.type),
+    'crm:P45_consists_of': label('crm:E57_Material', id.material),
+    'crm:P3_has_note': analysis.pastReconstruction.description,
+    'crm:P108i_was_produced_by': {
+      '@id': `${uri}:production`,
+      '@type': 'crm:E12_Production',
+      'crm:P4_has_time-span': { ...label('crm:E52_Time-Span', id.exactYearRange || id.era), 'crm:P3_has_note': id.era },
+      'crm:P7_took_place_at': label('crm:E53_Place', id.region),
+      [analysis.mode === 'new' ? 'crm:P14_carried_out_by' : 'crm:P10_falls_within']:
+        analysis.mode === 'new' ? label('crm:E74_Group', id.civilization) : label('crm:E4_Period', id.civilization),
+    },
+    'crm:P44_has_condition': {
+      '@type': 'crm:E3_Condition_State',
+      'crm:P3_has_note': [analysis.damageAnalysis.description, analysis.damageAnalysis.missingSections].filter(Boolean).join(' '),
+    },
+    'crm:P12i_was_present_at': analysis.timeline.map((e, i) => ({
+      '@id': `${uri}:event:${i}`,
+      '@type': 'crm:E5_Event',
+      'crm:P4_has_time-span': label('crm:E52_Time-Span', e.year),
+      'crm:P3_has_note': eventText(e),
+    })),
+    'crm:P67i_is_referred_to_by': analysis.sources.map(s => ({ '@id': s.uri, '@type': 'crm:E31_Document', 'rdfs:label': s.title })),
+    'crm:P138i_has_representation': imageRefs(record).map(ref => ({ '@id': ref.uri, '@type': 'crm:E36_Visual_Item', 'rdfs:label': ref.label })),
+    'crm:P140i_was_attributed_by': {
+      '@type': 'crm:E13_Attribute_Assignment',
+      'crm:P3_has_note': analysis.confidenceExplanation,
+      'dcterms:created': new Date(record.createdAt).toISOString(),
+      'crm:P2_has_type': label('crm:E55_Type', `AI-assisted identification, confidence ${analysis.confidenceScore}%, curator review ${reviewText(record)}`),
+      ...(record.data.review?.reviewer && { 'crm:P14_carried_out_by': label('crm:E21_Person', record.data.review.reviewer) }),
+    },
+  };
+};
+
+export const toJsonLd = (records: CaseRecord[]): string =>
+  JSON.stringify({
+    '@context': {
+      crm: 'http://www.cidoc-crm.org/cidoc-crm/',
+      rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+      dcterms: 'http://purl.org/dc/terms/',
+    },
+    '@graph': records.filter(r => r.data.analysis).map(toCidocObject),
+  }, null, 2);
+
+const CSV_COLUMNS = [
+  'id', 'created', 'mode', 'type', 'civilization', 'era', 'exactYearRange', 'region', 'material',
+  'manufacturer', 'productionDecade', 'repairMethod', 'confidenceScore', 'context', 'timeline', 'sources', 'images',
+  'reviewStatus', 'reviewer', 'curatedFields',
+];
+
+const csvCell = (value: string | number | undefined) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (records: CaseRecord[]): string => {
+  const rows = records.filter(r => r.data.analysis).map(record => {
+    const analysis = record.data.analysis!;
+    const id = analysis.identification;
+    return [
+      record.id,
+      new Date(record.createdAt).toISOString(),
+      analysis.mode ?? 'old',
+      id.type,
+      id.civilization,
+      id.era,
+      id.exactYearRange,
+      id.region,
+      id.material,
+      id.manufacturer,
+      id.productionDecade,
+      id.repairMethod,
+      analysis.confidenceScore,
+      record.context,
+      analysis.timeline.map(e => `${e.year}: ${eventText(e)}`).join(' | '),
+      analysis.sources.map(s => s.uri).join(' | '),
+      imageRefs(record).map(ref => ref.uri).join(' | '),
+      reviewOf(record.data).status,
+      record.data.review?.reviewer,
+      reviewOf(record.data).curated.map(editLabel).join(' | '),
+    ].map(csvCell).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const toNativeJson = (records: CaseRecord[]): string =>
+  JSON.stringify({ format: NATIVE_FORMAT, version: NATIVE_VERSION, exportedAt: new Date().toISOString(), records }, null, 2);
+
+/** Parses a native export, re-validating every analysis so shared files cannot smuggle in malformed records. */
+export const parseNativeJson = (text: string): CaseRecord[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Import failed: the file is not valid JSON.");
+  }
+  if (parsed?.format !== NATIVE_FORMAT || !Array.isArray(parsed.records)) {
+    throw new Error("Import failed: this is not an artifact.ai export file.");
+  }
+  if (parsed.version > NATIVE_VERSION) {
+    throw new Error(`Import failed: file version ${parsed.version} is newer than this app supports.`);
+  }
+
+  return parsed.records.map((record: any, i: number): CaseRecord => {
+    if (typeof record?.id !== 'string' || !record.data) throw new Error(`Import failed: record ${i} is missing its id or data.`);
+    const { data, errors } = validateRecordData(record.data);
+    if (!data) throw new Error(`Import failed: record ${i} has an invalid analysis (${errors.join('; ')}).`);
+    return {
+      id: record.id,
+      createdAt: typeof record.createdAt === 'number' ? record.createdAt : Date.now(),
+      context: typeof record.context === 'string' ? record.context : '',
+      data,
+    };
+  });
+};
+
+const SERIALIZERS: Record<ExportFormat, (records: CaseRecord[]) => string> = {
+  'dublin-core': toDublinCore,
+  'json-ld': toJsonLd,
+  csv: toCsv,
+  native: toNativeJson,
+};
+
+export const exportRecords = (format: ExportFormat, records: CaseRecord[], baseName: string) => {
+  const meta = EXPORT_FORMATS.find(f => f.id === format)!;
+  downloadFile(`${baseName}.${meta.extension}`, SERIALIZERS[format](records), meta.mime);
+};
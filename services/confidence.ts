@@ -0,0 +1,101 @@
+import { AnalysisDraft, ArtifactAnalysis, ArtifactMode, ArtifactView, ConfidenceDimension, DimensionConfidence, ReferenceMatch } from "../types";
+import { ModeLabels } from "../constants";
+import { analyzeArtifact } from "./geminiService";
+import { CONFIDENCE_DIMENSIONS } from "./analysisPrompts";
+
+// Per-dimension confidence. The model scores each dimension itself; with self-consistency on, the
+// same photographs are analysed several times independently and each dimension is also scored by
+// how often the runs gave the same answer, which does not depend on the model judging itself.
+
+/** Run counts offered for self-consistency; 1 means off. */
+export const CONSISTENCY_RUN_OPTIONS = [1, 3, 5];
+
+export const dimensionLabel = (dimension: ConfidenceDimension, labels: ModeLabels): string =>
+  ({ type: labels.objectClass, civilization: labels.origin, dating: labels.period, material: 'Material', reconstruction: 'Missing Volume' })[dimension];
+
+/** The answer a run gave for one dimension, as compared across runs. */
+const answerFor = (analysis: ArtifactAnalysis, dimension: ConfidenceDimension): string => {
+  const id = analysis.identification;
+  switch (dimension) {
+    case 'type': return id.type;
+    case 'civilization': return id.civilization;
+    case 'dating': return id.era;
+    case 'material': return id.material;
+    case 'reconstruction': return analysis.pastReconstruction.description;
+  }
+};
+
+const tokens = (value: string) =>
+  new Set(value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 2));
+
+// Free-text reconstructions never match word for word, so they need less overlap to count as the same answer.
+const MATCH_THRESHOLD: Partial<Record<ConfidenceDimension, number>> = { reconstruction: 0.3 };
+const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+const sameAnswer = (a: string, b: string, dimension: ConfidenceDimension) => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (!ta.size || !tb.size) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = [...ta].filter(t => tb.has(t)).length;
+  return shared / (ta.size + tb.size - shared) >= (MATCH_THRESHOLD[dimension] ?? DEFAULT_MATCH_THRESHOLD);
+};
+
+/** Groups the runs' answers; the first run's answer is always the first group. */
+const clusterAnswers = (values: string[], dimension: ConfidenceDimension) => {
+  const clusters: { value: string; runs: number }[] = [];
+  values.forEach(value => {
+    const match = clusters.find(c => sameAnswer(c.value, value, dimension));
+    if (match) match.runs++;
+    else clusters.push({ value, runs: 1 });
+  });
+  return clusters;
+};
+
+/**
+ * Adds agreement to the primary analysis' breakdown from the other runs. Dimensions the model did not
+ * score get an entry from agreement alone.
+ */
+export const withAgreement = (primary: ArtifactAnalysis, others: ArtifactAnalysis[]): ArtifactAnalysis => {
+  const runs = [primary, ...others];
+  const reported = new Map((primary.confidenceBreakdown ?? []).map(d => [d.dimension, d]));
+  const breakdown: DimensionConfidence[] = CONFIDENCE_DIMENSIONS.map(dimension => {
+    const clusters = clusterAnswers(runs.map(r => answerFor(r, dimension)), dimension);
+    const agreement = Math.round((clusters[0].runs / runs.length) * 100);
+    const base = reported.get(dimension) ?? { dimension, score: agreement, evidence: '' };
+    return { ...base, agreement, answers: [clusters[0], ...clusters.slice(1).sort((a, b) => b.runs - a.runs)] };
+  });
+  return { ...primary, confidenceBreakdown: breakdown, consistencyRuns: runs.length };
+};
+
+/**
+ * Runs the analysis `runs` times in parallel and scores agreement between them. Only the first run
+ * streams its draft and becomes the analysis; failed extra runs just lower the count, and the call
+ * only rejects if every run fails.
+ */
+export const analyzeWithSelfConsistency = async (
+  views: ArtifactView[],
+  context: string,
+  mode: ArtifactMode,
+  runs: number,
+  onDraft?: (draft: AnalysisDraft) => void,
+  references?: ReferenceMatch[]
+): Promise<ArtifactAnalysis> => {
+  if (runs <= 1) return analyzeArtifact(views, context, mode, onDraft, references);
+  const settled = await Promise.allSettled(
+    Array.from({ length: runs }, (_, i) => analyzeArtifact(views, context, mode, i === 0 ? onDraft : undefined, references))
+  );
+  const completed = settled.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+  if (!completed.length) throw (settled[0] as PromiseRejectedResult).reason;
+  const [primary, ...others] = completed;
+  return others.length ? withAgreement(primary, others) : primary;
+};
+
+/** Agreement when runs were compared, otherwise the model's own score. */
+export const calibratedScore = (entry: DimensionConfidence): number => entry.agreement ?? entry.score;
+
+/** Mean of the calibrated dimension scores, falling back to the single self-reported score. */
+export const overallConfidence = (analysis: ArtifactAnalysis): number => {
+  const breakdown = analysis.confidenceBreakdown;
+  if (!breakdown?.length) return analysis.confidenceScore;
+  return Math.round(breakdown.reduce((sum, d) => sum + calibratedScore(d), 0) / breakdown.length);
+};
@@ -0,0 +1,151 @@
+import { ConsistencyCheck, DamageRegion, ReconstructionData } from "../types";
+
+// Checks that a reconstruction kept what survives of the fragment. Both images are reduced to a
+// luminance grid and compared with a windowed structural similarity (SSIM), but only where the
+// fragment shows intact material: background and areas the analysis marked as lost are skipped.
+// This assumes the render keeps the fragment's framing, which the reference-conditioned prompt asks for.
+
+export const SIMILARITY_THRESHOLD = 55;
+
+/** Renders tried per reconstruction before the best one is kept and flagged. */
+export const MAX_RENDER_ATTEMPTS = 2;
+
+const GRID = 64;
+const WINDOW = 8;
+const STRIDE = 4;
+/** Share of a window that must be intact fragment for it to count. */
+const MIN_WINDOW_COVERAGE = 0.75;
+const BACKGROUND_THRESHOLD = 38;
+const C1 = 0.01 ** 2;
+const C2 = 0.03 ** 2;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load an image for the consistency check."));
+    img.src = src;
+  });
+
+const toGrid = async (src: string) => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = GRID;
+  canvas.height = GRID;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is unavailable for the consistency check.");
+  ctx.drawImage(img, 0, 0, GRID, GRID);
+  return ctx.getImageData(0, 0, GRID, GRID).data;
+};
+
+const luminance = (data: Uint8ClampedArray): Float32Array => {
+  const out = new Float32Array(GRID * GRID);
+  for (let p = 0; p < out.length; p++) {
+    out[p] = (0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2]) / 255;
+  }
+  return out;
+};
+
+const insidePolygon = (x: number, y: number, points: { x: number; y: number }[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// Foreground by distance from the average border colour, as in the relief viewer, minus lost areas.
+const survivingMask = (data: Uint8ClampedArray, regions: DamageRegion[]): Uint8Array => {
+  let br = 0, bg = 0, bb = 0, count = 0;
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      if (x !== 0 && y !== 0 && x !== GRID - 1 && y !== GRID - 1) continue;
+      const i = (y * GRID + x) * 4;
+      br += data[i]; bg += data[i + 1]; bb += data[i + 2];
+      count++;
+    }
+  }
+  br /= count; bg /= count; bb /= count;
+
+  const lost = regions.filter(r => r.type === 'loss');
+  const mask = new Uint8Array(GRID * GRID);
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      const i = (y * GRID + x) * 4;
+      const foreground = Math.hypot(data[i] - br, data[i + 1] - bg, data[i + 2] - bb) > BACKGROUND_THRESHOLD;
+      const px = ((x + 0.5) / GRID) * 100;
+      const py = ((y + 0.5) / GRID) * 100;
+      mask[y * GRID + x] = foreground && !lost.some(r => insidePolygon(px, py, r.points)) ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+/** Null when too little of the fragment survives to compare. */
+export const checkConsistency = async (fragment: string, render: string, regions: DamageRegion[] = []): Promise<Pick<ConsistencyCheck, 'similarity' | 'coverage'> | null> => {
+  const [fragmentData, renderData] = await Promise.all([toGrid(fragment), toGrid(render)]);
+  const a = luminance(fragmentData);
+  const b = luminance(renderData);
+  const mask = survivingMask(fragmentData, regions);
+
+  let total = 0;
+  let windows = 0;
+  for (let y0 = 0; y0 + WINDOW <= GRID; y0 += STRIDE) {
+    for (let x0 = 0; x0 + WINDOW <= GRID; x0 += STRIDE) {
+      let n = 0, sumA = 0, sumB = 0;
+      for (let y = y0; y < y0 + WINDOW; y++) {
+        for (let x = x0; x < x0 + WINDOW; x++) {
+          const p = y * GRID + x;
+          if (!mask[p]) continue;
+          n++;
+          sumA += a[p];
+          sumB += b[p];
+        }
+      }
+      if (n < WINDOW * WINDOW * MIN_WINDOW_COVERAGE) continue;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      let varA = 0, varB = 0, cov = 0;
+      for (let y = y0; y < y0 + WINDOW; y++) {
+        for (let x = x0; x < x0 + WINDOW; x++) {
+          const p = y * GRID + x;
+          if (!mask[p]) continue;
+          varA += (a[p] - meanA) ** 2;
+          varB += (b[p] - meanB) ** 2;
+          cov += (a[p] - meanA) * (b[p] - meanB);
+        }
+      }
+      varA /= n; varB /= n; cov /= n;
+      total += ((2 * meanA * meanB + C1) * (2 * cov + C2)) / ((meanA ** 2 + meanB ** 2 + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+  if (windows === 0) return null;
+
+  const surviving = mask.reduce((sum, v) => sum + v, 0);
+  return {
+    similarity: Math.round(Math.max(0, total / windows) * 100),
+    coverage: Math.round((surviving / mask.length) * 100),
+  };
+};
+
+/** Never rejects: a check that cannot run leaves the render unflagged rather than failing it. */
+export const assessRender = async (fragment: string, render: string, regions: DamageRegion[] = [], attempts = 1): Promise<ConsistencyCheck | undefined> => {
+  try {
+    const result = await checkConsistency(fragment, render, regions);
+    return result ? { ...result, passed: result.similarity >= SIMILARITY_THRESHOLD, attempts } : undefined;
+  } catch (err) {
+    console.error('Consistency check failed', err);
+    return undefined;
+  }
+};
+
+/** Re-measures after pastImage changed outside the pipeline (region edits, versions, accepted hypotheses). */
+export const withConsistencyCheck = async (data: ReconstructionData): Promise<ReconstructionData> => ({
+  ...data,
+  consistency: data.originalImage && data.pastImage
+    ? await assessRender(data.originalImage, data.pastImage, data.analysis?.damageAnalysis.regions)
+    : undefined,
+});
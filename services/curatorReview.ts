@@ -0,0 +1,146 @@
+import { ArtifactIdentification, CuratorReview, Hotspot, ReconstructionData, ReviewEdit, ReviewStatus, ValueSource } from "../types";
+
+// Curator corrections are written straight into the analysis so the dashboard, reports and exports
+// read the reviewed values. The review keeps every replaced value and who had produced it.
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'reviewed', 'approved'];
+
+export const reviewOf = (data: ReconstructionData): CuratorReview =>
+  data.review ?? { status: 'draft', history: [], curated: [] };
+
+const getAt = (root: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((node, key) => (node == null ? undefined : (node as any)[key]), root);
+
+// Copies each object or array along the path; numeric keys index arrays, including one past the end.
+const setAt = (node: any, keys: string[], value: unknown): any => {
+  const [key, ...rest] = keys;
+  const child = rest.length ? setAt(node?.[key], rest, value) : value;
+  if (Array.isArray(node)) {
+    const copy = [...node];
+    copy[Number(key)] = child;
+    return copy;
+  }
+  return { ...node, [key]: child };
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const sourceOf = (data: ReconstructionData, path: string): ValueSource =>
+  reviewOf(data).curated.includes(path) ? 'curator' : 'ai';
+
+// Approval covers one state of the record; any later content edit sends it back to reviewed.
+const withEdit = (data: ReconstructionData, review: CuratorReview, edit: ReviewEdit): ReconstructionData => {
+  const demote = review.status === 'approved' && edit.path !== 'review.status';
+  const history = [...review.history, edit];
+  if (demote) history.push({ at: edit.at, path: 'review.status', before: 'approved', after: 'reviewed', reviewer: edit.reviewer });
+  return { ...data, review: { ...review, status: demote ? 'reviewed' : review.status, history } };
+};
+
+/** Logs the value at `path` as curator-entered if it differs between the two records. */
+export const recordChange = (before: ReconstructionData, after: ReconstructionData, path: string, reviewer?: string): ReconstructionData => {
+  const previous = getAt(before, path);
+  const value = getAt(after, path);
+  if (same(previous, value)) return after;
+  const review = reviewOf(before);
+  const edit: ReviewEdit = { at: Date.now(), path, before: previous, after: value };
+  if (previous !== undefined) edit.replaced = sourceOf(before, path);
+  if (reviewer) edit.reviewer = reviewer;
+  const curated = review.curated.includes(path) ? review.curated : [...review.curated, path];
+  return withEdit(after, { ...review, curated }, edit);
+};
+
+export const editValue = (data: ReconstructionData, path: string, value: unknown, reviewer?: string): ReconstructionData =>
+  recordChange(data, setAt(data, path.split('.'), value), path, reviewer);
+
+// Modern-object records keep era/civilization in step with productionDecade/manufacturer.
+const MIRRORED: Partial<Record<keyof ArtifactIdentification, keyof ArtifactIdentification>> = {
+  civilization: 'manufacturer',
+  era: 'productionDecade',
+};
+
+export const editIdentification = (data: ReconstructionData, field: keyof ArtifactIdentification, value: string, reviewer?: string): ReconstructionData => {
+  const next = editValue(data, `analysis.identification.${field}`, value, reviewer);
+  const mirror = MIRRORED[field];
+  return next !== data && data.analysis?.mode === 'new' && mirror ? setAt(next, ['analysis', 'identification', mirror], value) : next;
+};
+
+export const annotateTimeline = (data: ReconstructionData, index: number, note: string, reviewer?: string): ReconstructionData =>
+  editValue(data, `analysis.timeline.${index}.note`, note.trim() || undefined, reviewer);
+
+const hotspotPath = (index: number) => `analysis.pastReconstruction.hotspots.${index}`;
+
+const round = (value: number) => Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+
+export const moveHotspot = (data: ReconstructionData, index: number, x: number, y: number, reviewer?: string): ReconstructionData => {
+  const spot = data.analysis?.pastReconstruction.hotspots[index];
+  return spot ? editValue(data, hotspotPath(index), { ...spot, x: round(x), y: round(y), curated: true }, reviewer) : data;
+};
+
+/** Rejected hotspots stay in the record so the history still resolves; they are only hidden. */
+export const toggleHotspotRejected = (data: ReconstructionData, index: number, reviewer?: string): ReconstructionData => {
+  const spot = data.analysis?.pastReconstruction.hotspots[index];
+  if (!spot) return data;
+  const { rejected, ...kept } = spot;
+  return editValue(data, hotspotPath(index), rejected ? kept : { ...spot, rejected: true }, reviewer);
+};
+
+export const addHotspot = (data: ReconstructionData, hotspot: Hotspot, reviewer?: string): ReconstructionData =>
+  data.analysis
+    ? editValue(data, hotspotPath(data.analysis.pastReconstruction.hotspots.length), { ...hotspot, x: round(hotspot.x), y: round(hotspot.y), curated: true }, reviewer)
+    : data;
+
+export const setReviewStatus = (data: ReconstructionData, status: ReviewStatus, reviewer?: string): ReconstructionData => {
+  const review = reviewOf(data);
+  if (review.status === status) return data;
+  const edit: ReviewEdit = { at: Date.now(), path: 'review.status', before: review.status, after: status };
+  if (reviewer) edit.reviewer = reviewer;
+  return withEdit(data, { ...review, status, reviewer: status === 'draft' ? review.reviewer : reviewer || review.reviewer }, edit);
+};
+
+/**
+ * Call with the records before and after acceptHypothesis(index). Curator marks follow their values
+ * between the leading slot and the alternative, and the swap itself is logged.
+ */
+export const recordAcceptance = (before: ReconstructionData, after: ReconstructionData, index: number, reviewer?: string): ReconstructionData => {
+  if (after === before) return after;
+  const review = reviewOf(before);
+  const pairs: [string, string][] = [
+    ['analysis.identification', `analysis.alternatives.${index}.identification`],
+    ['analysis.pastReconstruction.hotspots', `analysis.alternatives.${index}.hotspots`],
+    ['analysis.pastReconstruction.visualPrompt', `analysis.alternatives.${index}.visualPrompt`],
+    ['analysis.pastReconstruction.description', `analysis.alternatives.${index}.description`],
+  ];
+  const swap = (path: string) => {
+    for (const [lead, alt] of pairs) {
+      if (path === lead || path.startsWith(`${lead}.`)) return alt + path.slice(lead.length);
+      if (path === alt || path.startsWith(`${alt}.`)) return lead + path.slice(alt.length);
+    }
+    return path;
+  };
+  const edit: ReviewEdit = {
+    at: Date.now(),
+    path: 'analysis.identification',
+    before: before.analysis?.identification,
+    after: after.analysis?.identification,
+    replaced: review.curated.some(p => p.startsWith('analysis.identification.')) ? 'curator' : 'ai',
+  };
+  if (reviewer) edit.reviewer = reviewer;
+  return withEdit(after, { ...review, curated: review.curated.map(swap) }, edit);
+};
+
+/** Field name as shown in the history, relative to the analysis where it lives there. */
+export const editLabel = (path: string) => path.replace(/^analysis\./, '');
+
+export const describeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (typeof value !== 'object') return String(value);
+  if ('label' in value && 'x' in value) {
+    const spot = value as Hotspot;
+    return `${spot.label} @ ${Math.round(spot.x)}, ${Math.round(spot.y)}${spot.rejected ? ' (rejected)' : ''}`;
+  }
+  if ('type' in value && 'era' in value) {
+    const id = value as ArtifactIdentification;
+    return `${id.type} · ${id.civilization} · ${id.era}`;
+  }
+  return JSON.stringify(value);
+};
@@ -0,0 +1,393 @@
+import { AnalysisDraft, ArtifactAnalysis, ArtifactMode, ArtifactView, ChatMessage, ChatReply, NarrativeAudience, ReferenceMatch, ShardJoin } from "../types";
+import type { AIProvider, ProviderModels } from "./aiProvider";
+import { draftAnalysis } from "./analysisValidator";
+import { ClaimSupport, groundAnalysis } from "./citations";
+
+// Offline provider: deterministic canned output so the full pipeline runs without a key or network.
+
+const MODELS: ProviderModels = {
+  analysis: 'fixture-analysis',
+  image: 'fixture-image',
+  speech: 'fixture-speech',
+};
+
+const SIMULATED_LATENCY = 600;
+const SAMPLE_RATE = 24000;
+// Roughly a calm speaking pace, so the transcript highlight has something to follow.
+const NARRATION_CHARS_PER_SECOND = 15;
+
+// 1x1 grey PNG, used when no canvas is available to draw a labelled placeholder.
+const FALLBACK_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const ANTIQUE_FIXTURE: ArtifactAnalysis = {
+  mode: 'old',
+  identification: {
+    type: 'Marble Portrait Head (Fragment)',
+    era: 'Early Imperial, 1st century CE',
+    civilization: 'Roman',
+    region: 'Latium, Central Italy',
+    material: 'Fine-grained Carrara marble',
+    exactYearRange: '20 BCE - 60 CE',
+  },
+  damageAnalysis: {
+    description: 'Clean diagonal fracture through the lower jaw; surface erosion across the crown consistent with burial in alkaline soil.',
+    missingSections: 'Nose tip, lower jaw, neck and the left side of the laurel wreath.',
+    regions: [
+      { type: 'fracture', severity: 'severe', label: 'Jaw break', points: [{ x: 28, y: 70 }, { x: 72, y: 62 }, { x: 76, y: 68 }, { x: 32, y: 78 }] },
+      { type: 'erosion', severity: 'moderate', label: 'Crown erosion', points: [{ x: 35, y: 10 }, { x: 65, y: 10 }, { x: 62, y: 24 }, { x: 38, y: 24 }] },
+      { type: 'loss', severity: 'severe', label: 'Nose tip', points: [{ x: 48, y: 50 }, { x: 56, y: 50 }, { x: 54, y: 58 }] },
+    ],
+  },
+  pastReconstruction: {
+    description: 'A togate male portrait of a mature magistrate, carved in the veristic style favoured by the late Republic and early Empire.',
+    visualPrompt: 'A complete Roman marble portrait bust of a mature male magistrate wearing a laurel wreath, veristic style, neutral grey background.',
+    hotspots: [
+      { x: 42, y: 28, label: 'Laurel Wreath', detail: 'Leaf carving matches Augustan-era honorific portraits.' },
+      { x: 55, y: 48, label: 'Drilled Pupils', detail: 'Absence of drilled pupils places the piece before the Hadrianic period.' },
+      { x: 50, y: 72, label: 'Fracture Plane', detail: 'Fresh break edge; the jaw was likely lost during excavation.' },
+    ],
+  },
+  modernRestoration: {
+    description: 'Consolidate the eroded crown, fill the jaw loss with a reversible, toned plaster and mount on a discreet steel armature.',
+    visualPrompt: 'The restored marble head on a museum plinth under a soft spotlight.',
+  },
+  timeline: [
+    { year: '27 BCE', event: 'Augustus becomes first Roman emperor; honorific portraiture flourishes.' },
+    { year: 'c. 40 CE', event: 'Probable carving date based on stylistic comparison.' },
+    { year: '1898', event: 'Comparable portraits recovered in excavations near Ostia.' },
+  ],
+  confidenceScore: 78,
+  confidenceExplanation: 'Wreath form and undrilled eyes are strongly diagnostic; the missing jaw prevents a firm sitter identification.',
+  confidenceBreakdown: [
+    { dimension: 'type', score: 85, evidence: 'Scale, wreath and neck break match a portrait bust; no body survives to rule out a statue.' },
+    { dimension: 'civilization', score: 90, evidence: 'Veristic carving and civic wreath are characteristic of Roman portraiture.' },
+    { dimension: 'dating', score: 70, evidence: 'Undrilled pupils place it before Hadrian; finer dating rests on wreath style alone.' },
+    { dimension: 'material', score: 80, evidence: 'Crystalline white stone with even grain; no sample has been analysed.' },
+    { dimension: 'reconstruction', score: 45, evidence: 'The jaw and nose are lost, so the lower face follows period convention rather than evidence.' },
+  ],
+  assumptions: 'Assumes the head belonged to a full bust rather than a statue, based on the neck break angle.',
+  curatorNarrative: 'This marble head once portrayed a respected Roman magistrate. Its laurel wreath signals civic honour. The smooth, undrilled eyes date it to the early Empire. Time has taken the jaw, but not the dignity of its gaze.',
+  sources: [
+    { title: 'Roman Portraiture - Metropolitan Museum of Art', uri: 'https://www.metmuseum.org/toah/hd/ropo/hd_ropo.htm' },
+    { title: 'Roman portraiture - Wikipedia', uri: 'https://en.wikipedia.org/wiki/Roman_portraiture' },
+  ],
+  alternatives: [
+    {
+      identification: {
+        type: 'Posthumous Portrait of Augustus',
+        era: 'Julio-Claudian, 1st century CE',
+        civilization: 'Roman Imperial',
+        region: 'Rome',
+        material: 'Fine-grained Carrara marble',
+        exactYearRange: '14 - 54 CE',
+      },
+      confidence: 46,
+      rationale: 'The wreath and idealised brow fit imperial types, but the lined cheeks are more veristic than Augustan portraits usually allow.',
+      description: 'An idealised posthumous likeness of the first emperor wearing the civic crown.',
+      visualPrompt: 'A complete Roman marble portrait bust of the emperor Augustus wearing an oak-leaf civic crown, idealised classical style, neutral grey background.',
+      hotspots: [{ x: 42, y: 28, label: 'Wreath Type', detail: 'Could be read as the oak-leaf corona civica rather than laurel.' }],
+    },
+    {
+      identification: {
+        type: 'Funerary Portrait of a Freedman',
+        era: 'Late Republic, 1st century BCE',
+        civilization: 'Roman',
+        region: 'Latium, Central Italy',
+        material: 'Marble',
+        exactYearRange: '50 - 20 BCE',
+      },
+      confidence: 21,
+      rationale: 'Strong verism suits freedman tomb reliefs, but the wreath is unusual for a private commemorative portrait.',
+      description: 'A plain, realistic likeness of a prosperous freedman from a family tomb relief.',
+      visualPrompt: 'A complete Roman marble funerary portrait of a mature freedman, veristic style with deep facial lines, set in a shallow tomb relief niche, neutral grey background.',
+      hotspots: [{ x: 55, y: 48, label: 'Facial Lines', detail: 'Deep nasolabial folds typical of late Republican funerary portraits.' }],
+    },
+  ],
+};
+
+const MODERN_FIXTURE: ArtifactAnalysis = {
+  mode: 'new',
+  identification: {
+    type: 'Stoneware Coffee Mug',
+    era: '1970s',
+    civilization: 'Hornsea Pottery',
+    region: 'Yorkshire, England',
+    material: 'Glazed stoneware',
+    exactYearRange: '1970s',
+    manufacturer: 'Hornsea Pottery',
+    productionDecade: '1970s',
+    repairMethod: 'Two-part conservation epoxy with toned infill along the handle joint',
+  },
+  damageAnalysis: {
+    description: 'Handle snapped cleanly at both terminals; a small chip is missing from the rim.',
+    missingSections: 'Rim chip approximately 8 mm wide; handle present but detached.',
+    regions: [
+      { type: 'fracture', severity: 'severe', label: 'Handle break', points: [{ x: 66, y: 30 }, { x: 78, y: 30 }, { x: 78, y: 62 }, { x: 66, y: 62 }] },
+      { type: 'loss', severity: 'minor', label: 'Rim chip', points: [{ x: 40, y: 12 }, { x: 50, y: 12 }, { x: 45, y: 18 }] },
+    ],
+  },
+  pastReconstruction: {
+    description: 'A slip-cast stoneware mug from the Heirloom range, finished in a brown tenmoku glaze with a sgraffito band.',
+    visualPrompt: 'A brand-new Hornsea Heirloom stoneware mug, brown glaze with incised band, catalogue photograph, neutral grey background.',
+    hotspots: [
+      { x: 48, y: 82, label: 'Backstamp', detail: 'Partial Hornsea mark visible on the foot ring.' },
+      { x: 70, y: 45, label: 'Handle Terminal', detail: 'Clean break; both faces are intact and will bond well.' },
+    ],
+  },
+  modernRestoration: {
+    description: 'Degrease both break faces, bond the handle with epoxy, then fill and colour-match the rim chip.',
+    visualPrompt: 'The repaired mug on a workbench under bright daylight, faint repair line at the handle.',
+  },
+  timeline: [
+    { year: '1949', event: 'Hornsea Pottery founded in East Yorkshire.' },
+    { year: '1967', event: 'Heirloom range introduced.' },
+    { year: '2000', event: 'Factory closes; pieces become collectible.' },
+  ],
+  confidenceScore: 84,
+  confidenceExplanation: 'The partial backstamp and distinctive incised band match documented Heirloom pieces.',
+  confidenceBreakdown: [
+    { dimension: 'type', score: 95, evidence: 'Handle stub, rim profile and capacity are those of a mug.' },
+    { dimension: 'civilization', score: 80, evidence: 'Partial Hornsea backstamp; the range name itself is not legible.' },
+    { dimension: 'dating', score: 65, evidence: 'Glaze and band pattern fit the 1970s; no date code survives.' },
+    { dimension: 'material', score: 85, evidence: 'Dense grey body at the break indicates stoneware.' },
+    { dimension: 'reconstruction', score: 75, evidence: 'Only the handle is missing and its attachment scars fix its position.' },
+  ],
+  assumptions: 'Assumes the rim chip is unglazed biscuit underneath, based on the visible body colour.',
+  curatorNarrative: 'This mug came out of Hornsea Pottery in the 1970s. Its incised band is a signature of the Heirloom range. The handle broke cleanly, which makes for a strong repair. With careful bonding it can go back into daily use.',
+  sources: [
+    { title: 'Hornsea Pottery - Wikipedia', uri: 'https://en.wikipedia.org/wiki/Hornsea_Pottery' },
+  ],
+  alternatives: [
+    {
+      identification: {
+        type: 'Stoneware Coffee Mug',
+        era: '1970s',
+        civilization: 'Denby Pottery',
+        region: 'Derbyshire, England',
+        material: 'Glazed stoneware',
+        exactYearRange: '1970s',
+        manufacturer: 'Denby Pottery',
+        productionDecade: '1970s',
+        repairMethod: 'Two-part conservation epoxy with toned infill along the handle joint',
+      },
+      confidence: 28,
+      rationale: 'Denby made similar brown-glazed stoneware, but its bands are moulded rather than incised.',
+      description: 'A Denby stoneware mug in a brown reactive glaze.',
+      visualPrompt: 'A brand-new 1970s Denby stoneware mug, brown reactive glaze with a moulded band, catalogue photograph, neutral grey background.',
+      hotspots: [{ x: 48, y: 82, label: 'Foot Ring', detail: 'Foot profile is also consistent with Denby tableware.' }],
+    },
+  ],
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+// Resolves null instead of rejecting; a missing reference just means a plain placeholder.
+const loadReference = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise(resolve => {
+    if (typeof Image === 'undefined') return resolve(null);
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+// With a reference photo the placeholder is a tinted copy of it, so consistency checks have something to match.
+const drawPlaceholder = (prompt: string, seed = 0, reference: HTMLImageElement | null = null): string => {
+  if (typeof document === 'undefined') return FALLBACK_PNG;
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 512;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return FALLBACK_PNG;
+
+  const hue = (hashString(prompt) + seed) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, 512, 512);
+  gradient.addColorStop(0, `hsl(${hue}, 25%, 18%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 30%, 8%)`);
+  if (reference) {
+    ctx.drawImage(reference, 0, 0, 512, 512);
+    ctx.globalAlpha = 0.3;
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 512, 512);
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = '#d4af37';
+  ctx.lineWidth = 4;
+  ctx.strokeRect(24, 24, 464, 464);
+
+  ctx.fillStyle = '#d4af37';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('FIXTURE RENDER', 256, 240);
+  ctx.fillStyle = '#a8a29e';
+  ctx.font = '16px monospace';
+  ctx.fillText(prompt.slice(0, 48), 256, 280);
+  if (seed) ctx.fillText(`seed ${seed}`, 256, 310);
+
+  return canvas.toDataURL('image/png');
+};
+
+const synthesizeTone = (text: string): string => {
+  const frames = SAMPLE_RATE * Math.max(2, Math.round(text.length / NARRATION_CHARS_PER_SECOND));
+  const bytes = new Uint8Array(frames * 2);
+  const view = new DataView(bytes.buffer);
+  const frequency = 220 + (hashString(text) % 220);
+  for (let i = 0; i < frames; i++) {
+    const envelope = Math.min(1, i / 2400, (frames - i) / 2400);
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2 * envelope;
+    view.setInt16(i * 2, Math.round(sample * 32767), true);
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const DRAFT_STEPS = 4;
+
+const analyzeArtifact = async (
+  views: ArtifactView[],
+  _context: string = '',
+  mode: ArtifactMode = 'old',
+  onDraft?: (draft: AnalysisDraft) => void,
+  references: ReferenceMatch[] = []
+): Promise<ArtifactAnalysis> => {
+  const analysis = structuredClone(mode === 'new' ? MODERN_FIXTURE : ANTIQUE_FIXTURE);
+  // Acknowledge the closest catalogue object the way a real analysis would cite a comparandum.
+  const closest = references[0];
+  if (closest) {
+    analysis.confidenceExplanation += ` Compared with catalogue object ${closest.accession ?? closest.title} (${closest.similarity}% visual similarity).`;
+  }
+  // Reveal the fixture in the same order a streamed response would fill it in.
+  for (let step = 1; step <= DRAFT_STEPS; step++) {
+    await delay(SIMULATED_LATENCY / DRAFT_STEPS);
+    onDraft?.(draftAnalysis({
+      identification: analysis.identification,
+      timeline: analysis.timeline.slice(0, Math.ceil(analysis.timeline.length * step / DRAFT_STEPS)),
+      pastReconstruction: step > 1 ? analysis.pastReconstruction : undefined,
+      curatorNarrative: step > 2 ? analysis.curatorNarrative.slice(0, Math.ceil(analysis.curatorNarrative.length * (step - 2) / (DRAFT_STEPS - 2))) : undefined,
+    }, mode));
+  }
+  // One extra marker per additional photo so multi-view layouts have something to show.
+  views.slice(1).forEach((view, i) => {
+    analysis.pastReconstruction.hotspots.push({
+      x: 50, y: 50, view: i + 1,
+      label: `${view.role} view`,
+      detail: `Fixture marker placed on the ${view.role} photograph.`,
+    });
+  });
+  // Ground a few claims and leave the rest unverified, as a searched response would.
+  const sources = analysis.sources;
+  const supports: ClaimSupport[] = [
+    { text: `"type": "${analysis.identification.type}"`, chunks: sources.map((_, i) => i) },
+    { text: `"era": "${analysis.identification.era}"`, chunks: [0] },
+    { text: `"event": "${analysis.timeline[0].event}"`, chunks: [sources.length - 1] },
+  ];
+  return groundAnalysis({ ...analysis, sources: [] }, sources, supports);
+};
+
+// Answers from the analysis itself; keywords decide whether a refinement or a re-render is offered.
+const chatAboutArtifact = async (
+  analysis: ArtifactAnalysis,
+  _image: string | null,
+  _history: ChatMessage[],
+  question: string,
+  _mode: ArtifactMode = 'old'
+): Promise<ChatReply> => {
+  await delay(SIMULATED_LATENCY);
+  const id = analysis.identification;
+  const reply: ChatReply = {
+    text: `Fixture answer to "${question}". The ${id.civilization} attribution of this ${id.type.toLowerCase()} rests on the evidence summarised in the analysis: ${analysis.confidenceExplanation}${analysis.sources.length ? ' [1]' : ''}`,
+    sources: [{ title: 'Fixture Follow-up Reference', uri: 'https://example.org/fixture/follow-up' }],
+    refinements: [],
+  };
+  if (/\b(why|not|instead|really)\b/i.test(question)) {
+    reply.refinements.push({
+      field: 'assumptions',
+      value: `${analysis.assumptions} Follow-up question considered: ${question}`,
+      reason: 'Fixture refinement recording the alternative raised in chat.',
+    });
+  }
+  if (/\b(look|looked|render|show|colou?r|base)\b/i.test(question)) {
+    reply.renderPrompt = `${analysis.pastReconstruction.visualPrompt} Emphasise: ${question}`;
+  }
+  return reply;
+};
+
+// Assembled from the analysis fields so each audience reads differently and stays true to the fixture.
+const writeNarrative = async (
+  analysis: ArtifactAnalysis,
+  audience: Exclude<NarrativeAudience, 'tour'>,
+  _image: string | null,
+  _mode: ArtifactMode = 'old'
+): Promise<string> => {
+  await delay(SIMULATED_LATENCY);
+  const { identification: id, pastReconstruction, damageAnalysis } = analysis;
+  const features = pastReconstruction.hotspots.filter(h => !h.rejected);
+  switch (audience) {
+    case 'children':
+      return `This is a ${id.type.toLowerCase()}, and it is very old. It was made from ${id.material.toLowerCase()}. Some pieces are missing: ${damageAnalysis.missingSections.toLowerCase()} Can you find the ${(features[0]?.label ?? 'broken edge').toLowerCase()}?`;
+    case 'general':
+      return `${id.type}. ${id.civilization}, ${id.era}. ${pastReconstruction.description}`;
+    case 'specialist':
+      return `${id.type}; ${id.material}; ${id.exactYearRange}, ${id.region}. ${features.map(h => `${h.label}: ${h.detail}`).join(' ')} ${analysis.confidenceExplanation} ${analysis.assumptions}`;
+    case 'audioDescription':
+      return `The reconstruction shows the ${id.type.toLowerCase()} complete, as it would have looked when new. ${pastReconstruction.description} ${features.map(h => `Near the ${h.y < 40 ? 'top' : h.y > 60 ? 'base' : 'middle'}, ${h.label.toLowerCase()}.`).join(' ')}`;
+  }
+};
+
+// Chains the fragments left to right in upload order with falling confidence.
+const proposeJoins = async (fragments: string[], _context: string = '', _mode: ArtifactMode = 'old'): Promise<ShardJoin[]> => {
+  await delay(SIMULATED_LATENCY);
+  return fragments.slice(1).map((_, i) => ({
+    a: i,
+    aEdge: 'right',
+    b: i + 1,
+    bEdge: 'left',
+    confidence: Math.max(40, 90 - i * 15),
+    rationale: `Fixture join: matching break profile between fragment ${i} and fragment ${i + 1}.`,
+  }));
+};
+
+const generateImage = async (prompt: string, _mode: ArtifactMode = 'old', seed?: number, reference?: string): Promise<string> => {
+  await delay(SIMULATED_LATENCY);
+  return drawPlaceholder(prompt, seed, reference ? await loadReference(reference) : null);
+};
+
+// The placeholder only shows through the painted area once it is composited over the render.
+const editImageRegion = async (_image: string, _mask: string, instruction: string, _mode: ArtifactMode = 'old'): Promise<string> => {
+  await delay(SIMULATED_LATENCY);
+  return drawPlaceholder(instruction, hashString(instruction));
+};
+
+// The voice shifts the pitch so switching voices is audible.
+const generateSpeech = async (text: string, voice: string = 'Kore'): Promise<string> => {
+  await delay(SIMULATED_LATENCY);
+  return synthesizeTone(`${voice}:${text}`);
+};
+
+const translateText = async (text: string, language: string): Promise<string> => {
+  await delay(SIMULATED_LATENCY);
+  return `[${language}] ${text}`;
+};
+
+export const fixtureProvider: AIProvider = {
+  id: 'fixture',
+  label: 'Offline Fixtures',
+  requiresApiKey: false,
+  models: MODELS,
+  analyzeArtifact,
+  chatAboutArtifact,
+  writeNarrative,
+  proposeJoins,
+  generateImage,
+  editImageRegion,
+  generateSpeech,
+  translateText,
+};
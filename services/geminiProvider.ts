@@ -0,0 +1,309 @@
+
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { AnalysisDraft, ArtifactAnalysis, ArtifactMode, ArtifactView, ChatMessage, ChatReply, GroundingSource, NarrativeAudience, ReferenceMatch, ShardJoin } from "../types";
+import { CHAT_SCHEMA, JOIN_SCHEMA, REFINABLE_FIELDS, buildAnalysisPrompt, buildAnalysisSchema, buildChatPrompt, buildJoinPrompt, buildNarrativePrompt, buildTranslationPrompt } from "./analysisPrompts";
+import { AnalysisValidationError, draftAnalysis, parseAnalysis, parseChatReply, parseJoins } from "./analysisValidator";
+import { parsePartialJson } from "./partialJson";
+import { ClaimSupport, classifySource, groundAnalysis } from "./citations";
+import type { AIProvider, ProviderModels } from "./aiProvider";
+
+const MODELS: ProviderModels = {
+  analysis: 'gemini-3-pro-preview',
+  image: 'gemini-3-pro-image-preview',
+  speech: 'gemini-2.5-flash-preview-tts',
+};
+
+const MAX_RETRIES = 2;
+const INITIAL_BACKOFF = 1000;
+const MAX_REPAIR_ATTEMPTS = 1;
+
+async function withRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES, delay = INITIAL_BACKOFF): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const isTransient = error?.status === 'INTERNAL' || error?.code === 500 || error?.message?.includes('500');
+    if (isTransient && retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return withRetry(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+}
+
+// Splits a data URL into the mime type and payload Gemini expects; bare base64 is assumed to be JPEG.
+const toInlineData = (image: string) => {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(image);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/jpeg', data: image };
+};
+
+// Kept index-aligned with the chunks so grounding supports can refer to them; null for non-web chunks.
+const chunkSources = (chunks: any[] | undefined): (GroundingSource | null)[] =>
+  (chunks ?? []).map((chunk: any) =>
+    chunk.web?.uri ? { title: chunk.web.title || chunk.web.domain || chunk.web.uri, uri: chunk.web.uri } : null
+  );
+
+const groundingSources = (chunks: any[] | undefined): GroundingSource[] =>
+  chunkSources(chunks).flatMap(source => (source ? [{ ...source, kind: classifySource(source) }] : []));
+
+const claimSupports = (supports: any[] | undefined): ClaimSupport[] =>
+  (supports ?? []).map((support: any) => ({ text: support.segment?.text ?? '', chunks: support.groundingChunkIndices ?? [] }));
+
+const analyzeArtifact = async (
+  views: ArtifactView[],
+  context: string = '',
+  mode: ArtifactMode = 'old',
+  onDraft?: (draft: AnalysisDraft) => void,
+  references: ReferenceMatch[] = []
+): Promise<ArtifactAnalysis> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  let issues: string[] = [];
+
+  const viewParts = views.flatMap((view, i) => [
+    { text: `View ${i} (${view.role}):` },
+    { inlineData: toInlineData(view.image) },
+  ]);
+  const referenceParts = references.flatMap((match, i) => [
+    { text: `Catalogue reference ${i + 1} (${match.title}):` },
+    { inlineData: toInlineData(match.image) },
+  ]);
+
+  // Unusable output is sent back to the model once with the validation errors before giving up.
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const repairParts = issues.length
+      ? [{ text: `Your previous response was rejected by schema validation:\n- ${issues.join('\n- ')}\nReturn the complete JSON object again with these problems fixed.` }]
+      : [];
+
+    const stream = await withRetry(() => ai.models.generateContentStream({
+      model: MODELS.analysis,
+      contents: {
+        parts: [
+          ...viewParts,
+          ...referenceParts,
+          {
+            text: buildAnalysisPrompt(mode, context, views.map(v => v.role), references)
+          },
+          ...repairParts
+        ]
+      },
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: buildAnalysisSchema(mode)
+      }
+    }));
+
+    // Grounding metadata arrives on the final chunks, so keep the last one seen.
+    let text = '';
+    let groundingChunks: any[] | undefined;
+    let groundingSupports: any[] | undefined;
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? groundingChunks;
+      groundingSupports = chunk.candidates?.[0]?.groundingMetadata?.groundingSupports ?? groundingSupports;
+      if (onDraft) {
+        const partial = parsePartialJson(text);
+        if (partial !== undefined) onDraft(draftAnalysis(partial, mode));
+      }
+    }
+
+    const result = parseAnalysis(text, { mode, viewCount: views.length });
+    if (!result.analysis) {
+      issues = result.errors;
+      continue;
+    }
+    return groundAnalysis(result.analysis, chunkSources(groundingChunks), claimSupports(groundingSupports));
+  }
+
+  throw new AnalysisValidationError(issues);
+};
+
+const chatAboutArtifact = async (
+  analysis: ArtifactAnalysis,
+  image: string | null,
+  history: ChatMessage[],
+  question: string,
+  mode: ArtifactMode = 'old'
+): Promise<ChatReply> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  // The photograph rides along with the opening question so every turn can refer back to it.
+  const turns = [...history, { role: 'user' as const, text: question }];
+  const contents = turns.map((turn, i) => ({
+    role: turn.role,
+    parts: i === 0 && image ? [{ inlineData: toInlineData(image) }, { text: turn.text }] : [{ text: turn.text }],
+  }));
+
+  const response = await withRetry(() => ai.models.generateContent({
+    model: MODELS.analysis,
+    contents,
+    config: {
+      systemInstruction: buildChatPrompt(mode, analysis),
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+      responseSchema: CHAT_SCHEMA
+    }
+  }));
+
+  const result = parseChatReply(response.text || '', REFINABLE_FIELDS);
+  if (!result.reply) throw new AnalysisValidationError(result.errors);
+  return { ...result.reply, sources: groundingSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks) };
+};
+
+const writeNarrative = async (
+  analysis: ArtifactAnalysis,
+  audience: Exclude<NarrativeAudience, 'tour'>,
+  image: string | null,
+  mode: ArtifactMode = 'old'
+): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const prompt = { text: buildNarrativePrompt(mode, audience, analysis) };
+
+  const response = await withRetry(() => ai.models.generateContent({
+    model: MODELS.analysis,
+    contents: { parts: image ? [{ inlineData: toInlineData(image) }, prompt] : [prompt] },
+  }));
+
+  const text = (response.text || '').trim();
+  if (!text) throw new Error("The narrative came back empty. Please try again.");
+  return text;
+};
+
+const proposeJoins = async (fragments: string[], context: string = '', mode: ArtifactMode = 'old'): Promise<ShardJoin[]> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const response = await withRetry(() => ai.models.generateContent({
+    model: MODELS.analysis,
+    contents: {
+      parts: [
+        ...fragments.flatMap((image, i) => [{ text: `Fragment ${i}:` }, { inlineData: toInlineData(image) }]),
+        { text: buildJoinPrompt(mode, context, fragments.length) }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: JOIN_SCHEMA
+    }
+  }));
+
+  const result = parseJoins(response.text || '', fragments.length);
+  if (result.errors.length) throw new AnalysisValidationError(result.errors);
+  return result.joins;
+};
+
+const imageSubject = (mode: ArtifactMode) =>
+  mode === 'new' ? 'manufactured object in brand-new condition' : 'fully reconstructed ancient object';
+
+const imageFromResponse = (response: any): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+  }
+  return null;
+};
+
+// Sent with the fragment photo so the render completes that object instead of inventing a similar one.
+const REFERENCE_INSTRUCTION = 'The attached photograph shows what survives of this exact object. Keep every surviving feature identical: proportions, facial features, carving or moulding, decoration, material, colour and wear. Keep the same viewpoint and framing so the surviving part sits where it does in the photograph, and only complete what is missing.';
+
+const generateImage = async (prompt: string, mode: ArtifactMode = 'old', seed?: number, reference?: string): Promise<string> => {
+  const subject = imageSubject(mode);
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: MODELS.image,
+      contents: {
+        parts: [
+          ...(reference ? [{ inlineData: toInlineData(reference) }, { text: REFERENCE_INSTRUCTION }] : []),
+          { text: `Professional, sharp, museum archival photograph. STICK TO THE SUBJECT DESCRIPTION EXACTLY. NO CREATIVE LIBERTIES. The subject is a single, WHOLE, ${subject}. Subject: ${prompt}` }
+        ]
+      },
+      config: {
+        seed,
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: "1K"
+        }
+      }
+    });
+
+    const image = imageFromResponse(response);
+    if (image) return image;
+    throw new Error("Visual synthesis failed. The fragment might be too complex.");
+  });
+};
+
+// The caller composites the result through the mask, so stray changes outside it are discarded anyway.
+const editImageRegion = async (image: string, mask: string, instruction: string, mode: ArtifactMode = 'old'): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: MODELS.image,
+      contents: {
+        parts: [
+          { inlineData: toInlineData(image) },
+          { inlineData: toInlineData(mask) },
+          { text: `The first image is a museum archival photograph of a single, WHOLE, ${imageSubject(mode)}. The second image is a mask of the same framing. Redraw ONLY the area that is white in the mask and leave everything in the black area unchanged. Match the lighting, camera angle, material, surface finish and artistic style across the edge of the edit. Change to make: ${instruction}` }
+        ]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: "1K"
+        }
+      }
+    });
+
+    const edited = imageFromResponse(response);
+    if (edited) return edited;
+    throw new Error("Region edit failed. Try a smaller area or a simpler instruction.");
+  });
+};
+
+const generateSpeech = async (text: string, voice: string = 'Kore'): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: MODELS.speech,
+      contents: [{ parts: [{ text: `Narrate in an authoritative and calm museum curator voice: ${text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("Audio synthesis failed.");
+    return base64Audio;
+  });
+};
+
+const translateText = async (text: string, language: string): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const response = await withRetry(() => ai.models.generateContent({
+    model: MODELS.analysis,
+    contents: { parts: [{ text: buildTranslationPrompt(language, text) }] },
+  }));
+
+  const translated = (response.text || '').trim();
+  if (!translated) throw new Error(`Translation into ${language} failed.`);
+  return translated;
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  models: MODELS,
+  analyzeArtifact,
+  chatAboutArtifact,
+  writeNarrative,
+  proposeJoins,
+  generateImage,
+  editImageRegion,
+  generateSpeech,
+  translateText,
+};
@@ -0,0 +1,115 @@
+import { ArtifactAnalysis, ArtifactMode, Hypothesis, HypothesisVariant, ReconstructionData } from "../types";
+import { generateImage } from "./geminiService";
+import { withoutCitationsFor } from "./citations";
+
+// The leading identification lives in the analysis' top-level fields so the rest of the app (reports,
+// exports, library search) reads it directly; alternatives sit beside it until a curator promotes one.
+
+export interface HypothesisEntry {
+  hypothesis: Hypothesis;
+  image: string | null;
+  error?: string;
+  votes: number;
+  /** -1 for the leading identification, otherwise the index into analysis.alternatives. */
+  index: number;
+}
+
+export const leadingHypothesis = (analysis: ArtifactAnalysis): Hypothesis => ({
+  identification: analysis.identification,
+  confidence: analysis.confidenceScore,
+  rationale: analysis.confidenceExplanation,
+  description: analysis.pastReconstruction.description,
+  visualPrompt: analysis.pastReconstruction.visualPrompt,
+  hotspots: analysis.pastReconstruction.hotspots,
+});
+
+export const emptyVariants = (analysis: ArtifactAnalysis): HypothesisVariant[] =>
+  (analysis.alternatives ?? []).map(() => ({ image: null, votes: 0 }));
+
+/** Leading identification first, then the alternatives in the order the model ranked them. */
+export const hypothesisEntries = (data: ReconstructionData): HypothesisEntry[] => {
+  if (!data.analysis) return [];
+  return [
+    { hypothesis: leadingHypothesis(data.analysis), image: data.pastImage, error: data.assetErrors?.pastImage, votes: data.primaryVotes ?? 0, index: -1 },
+    ...(data.analysis.alternatives ?? []).map((hypothesis, index) => {
+      const variant = data.variants?.[index];
+      return { hypothesis, image: variant?.image ?? null, error: variant?.error, votes: variant?.votes ?? 0, index };
+    }),
+  ];
+};
+
+export const hasVoted = (data: ReconstructionData, voter: string): boolean =>
+  (data.voters ?? []).includes(voter);
+
+/** Counts one vote per voter per case; a second vote from the same voter is ignored. */
+export const voteForHypothesis = (data: ReconstructionData, index: number, voter: string): ReconstructionData => {
+  if (hasVoted(data, voter)) return data;
+  const voters = [...(data.voters ?? []), voter];
+  if (index < 0) return { ...data, voters, primaryVotes: (data.primaryVotes ?? 0) + 1 };
+  const variants = data.variants ?? emptyVariants(data.analysis!);
+  return { ...data, voters, variants: variants.map((v, i) => (i === index ? { ...v, votes: v.votes + 1 } : v)) };
+};
+
+/**
+ * Promotes alternative `index` to the leading identification, demoting the current one into its
+ * slot. Renders and votes travel with their hypothesis. The narrative, timeline and restoration
+ * stay as written for the original reading.
+ */
+export const acceptHypothesis = (data: ReconstructionData, index: number): ReconstructionData => {
+  const analysis = data.analysis;
+  const chosen = analysis?.alternatives?.[index];
+  if (!analysis || !chosen) return data;
+  const variants = data.variants ?? emptyVariants(analysis);
+  const chosenVariant = variants[index] ?? { image: null, votes: 0 };
+
+  // Citations grounded the demoted reading's text, so none of the text replaced below keeps them.
+  const replacedFields = ['identification', 'confidenceExplanation', ...(chosen.description ? ['pastReconstruction.description'] : [])];
+
+  const { pastImage: _previousError, ...assetErrors } = data.assetErrors ?? {};
+  const { pastImage: _previousSeed, ...assetSeeds } = data.assetSeeds ?? {};
+
+  return {
+    ...data,
+    analysis: {
+      ...analysis,
+      identification: chosen.identification,
+      confidenceScore: chosen.confidence,
+      confidenceExplanation: chosen.rationale,
+      // The breakdown scored the demoted reading; the alternative only has its single score.
+      confidenceBreakdown: undefined,
+      consistencyRuns: undefined,
+      pastReconstruction: {
+        description: chosen.description || analysis.pastReconstruction.description,
+        visualPrompt: chosen.visualPrompt,
+        hotspots: chosen.hotspots,
+      },
+      alternatives: analysis.alternatives!.map((h, i) => (i === index ? leadingHypothesis(analysis) : h)),
+      citations: withoutCitationsFor(analysis.citations, replacedFields),
+    },
+    pastImage: chosenVariant.image,
+    assetErrors: chosenVariant.error ? { ...assetErrors, pastImage: chosenVariant.error } : assetErrors,
+    assetSeeds,
+    variants: variants.map((v, i) => (i === index ? { image: data.pastImage, error: data.assetErrors?.pastImage, votes: data.primaryVotes ?? 0 } : v)),
+    primaryVotes: chosenVariant.votes,
+    hypothesisAccepted: true,
+    // Region-edit versions were made from the demoted render, so they do not carry over.
+    pastImageVersions: undefined,
+    pastImageVersion: undefined,
+  };
+};
+
+/** Renders one alternative, conditioned on the fragment photo when given. Never rejects; failures come back on the variant. */
+export const renderVariant = async (hypothesis: Hypothesis, mode: ArtifactMode, votes = 0, reference?: string | null): Promise<HypothesisVariant> => {
+  try {
+    return { image: await generateImage(hypothesis.visualPrompt, mode, undefined, reference ?? undefined), votes };
+  } catch (err: any) {
+    console.error('Rendering hypothesis failed', err);
+    return { image: null, error: err?.message || 'Generation failed.', votes };
+  }
+};
+
+export const applyVariant = (data: ReconstructionData, index: number, variant: HypothesisVariant): ReconstructionData => {
+  const variants = [...(data.variants ?? emptyVariants(data.analysis!))];
+  variants[index] = variant;
+  return { ...data, variants };
+};
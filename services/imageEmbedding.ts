@@ -0,0 +1,100 @@
+// Compact visual descriptor used to compare a fragment with catalogue photographs. It runs entirely
+// in the browser: a colour histogram (what it is made of), edge orientations per cell (decoration and
+// carving) and a coarse luminance layout (overall shape). Each block is mean-centred and normalised so
+// featureless regions contribute nothing, and the whole vector has unit length so a dot product is the
+// cosine similarity.
+
+/** Bump when the descriptor changes; stored embeddings with another version are recomputed. */
+export const EMBEDDING_VERSION = 1;
+
+const SIZE = 64;
+const HUE_BINS = 8;
+const SAT_BINS = 3;
+const VAL_BINS = 3;
+const EDGE_CELLS = 4;
+const EDGE_BINS = 9;
+const LAYOUT = 8;
+const LAYOUT_WEIGHT = 0.7;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load an image for comparison."));
+    img.src = src;
+  });
+
+const centredUnit = (values: number[], weight = 1): number[] => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const centred = values.map(v => v - mean);
+  const norm = Math.hypot(...centred) || 1;
+  return centred.map(v => (v / norm) * weight);
+};
+
+const colourHistogram = (data: Uint8ClampedArray): number[] => {
+  const bins = new Array(HUE_BINS * SAT_BINS * VAL_BINS).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b), delta = max - min;
+    let hue = 0;
+    if (delta) hue = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    const sat = max ? delta / max : 0;
+    const h = Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS));
+    const s = Math.min(SAT_BINS - 1, Math.floor(sat * SAT_BINS));
+    const v = Math.min(VAL_BINS - 1, Math.floor(max * VAL_BINS));
+    bins[(h * SAT_BINS + s) * VAL_BINS + v]++;
+  }
+  return bins;
+};
+
+const luminance = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(SIZE * SIZE);
+  for (let i = 0; i < gray.length; i++) gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  return gray;
+};
+
+const edgeOrientations = (gray: Float32Array): number[] => {
+  const bins = new Array(EDGE_CELLS * EDGE_CELLS * EDGE_BINS).fill(0);
+  const cell = SIZE / EDGE_CELLS;
+  for (let y = 1; y < SIZE - 1; y++) {
+    for (let x = 1; x < SIZE - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * SIZE + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const magnitude = Math.hypot(gx, gy);
+      if (!magnitude) continue;
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI;
+      const bin = Math.min(EDGE_BINS - 1, Math.floor((angle / Math.PI) * EDGE_BINS));
+      const c = Math.floor(y / cell) * EDGE_CELLS + Math.floor(x / cell);
+      bins[c * EDGE_BINS + bin] += magnitude;
+    }
+  }
+  return bins;
+};
+
+const layout = (gray: Float32Array): number[] => {
+  const cells = new Array(LAYOUT * LAYOUT).fill(0);
+  const cell = SIZE / LAYOUT;
+  for (let i = 0; i < gray.length; i++) {
+    cells[Math.floor(Math.floor(i / SIZE) / cell) * LAYOUT + Math.floor((i % SIZE) / cell)] += gray[i];
+  }
+  return cells;
+};
+
+export const embedImage = async (src: string): Promise<number[]> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is unavailable, so images cannot be compared.");
+  ctx.drawImage(img, 0, 0, SIZE, SIZE);
+  const { data } = ctx.getImageData(0, 0, SIZE, SIZE);
+  const gray = luminance(data);
+  const vector = [...centredUnit(colourHistogram(data)), ...centredUnit(edgeOrientations(gray)), ...centredUnit(layout(gray), LAYOUT_WEIGHT)];
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(v => v / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number =>
+  a.length === b.length ? a.reduce((sum, v, i) => sum + v * b[i], 0) : 0;
@@ -0,0 +1,20 @@
+import { ArtifactView, ViewRole } from "../types";
+
+export const VIEW_ROLES: ViewRole[] = ['front', 'back', 'profile', 'break', 'detail'];
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Reads photos in order and assigns the default role sequence (front, back, profile, then detail shots). */
+export const filesToViews = async (files: File[], offset = 0): Promise<ArtifactView[]> => {
+  const images = await Promise.all(files.map(readFileAsDataUrl));
+  return images.map((image, i) => ({
+    role: i + offset < 3 ? VIEW_ROLES[i + offset] : 'detail',
+    image,
+  }));
+};
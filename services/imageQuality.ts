@@ -0,0 +1,27 @@
+// Focus check for captured frames: variance of a 4-neighbour Laplacian over the luminance channel.
+// Sharp edges give large second derivatives, so a low variance means a soft or blurred image.
+
+export const SHARPNESS_THRESHOLD = 60;
+
+export const measureSharpness = ({ data, width, height }: ImageData): number => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
@@ -0,0 +1,99 @@
+import { Narration, NarrativeAudience, ReconstructionData } from "../types";
+import { generateSpeech, translateText } from "./geminiService";
+
+// Audio tour of a finished scan. Providers return raw 16-bit mono PCM; it is wrapped in a WAV header
+// here so the browser's own audio element can pause, seek and report progress, and so it downloads
+// as a file any player opens.
+
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export const NARRATION_VOICES = [
+  { id: 'Kore', label: 'Kore · Firm' },
+  { id: 'Charon', label: 'Charon · Informative' },
+  { id: 'Puck', label: 'Puck · Upbeat' },
+  { id: 'Fenrir', label: 'Fenrir · Excitable' },
+  { id: 'Aoede', label: 'Aoede · Breezy' },
+  { id: 'Zephyr', label: 'Zephyr · Bright' },
+];
+
+/** Analyses are written in English, so only the other languages go through a translation step. */
+export const NARRATION_LANGUAGES = ['English', 'French', 'Spanish', 'German', 'Italian', 'Portuguese', 'Dutch', 'Japanese', 'Mandarin Chinese', 'Arabic', 'Hindi'];
+
+export const DEFAULT_VOICE = NARRATION_VOICES[0].id;
+export const DEFAULT_LANGUAGE = NARRATION_LANGUAGES[0];
+
+export interface NarrationOptions {
+  voice?: string;
+  language?: string;
+  audience?: NarrativeAudience;
+}
+
+export const narrationOf = (data: ReconstructionData): Narration =>
+  data.narration ?? { voice: DEFAULT_VOICE, language: DEFAULT_LANGUAGE, text: data.analysis?.curatorNarrative ?? '' };
+
+/** Translates the script when another language is chosen, then synthesizes it. `audience` only labels the result. */
+export const narrate = async (script: string, { voice = DEFAULT_VOICE, language = DEFAULT_LANGUAGE, audience }: NarrationOptions = {}): Promise<{ audio: string; narration: Narration }> => {
+  const text = language === DEFAULT_LANGUAGE ? script : await translateText(script, language);
+  const narration: Narration = { voice, language, text };
+  if (audience && audience !== 'tour') narration.audience = audience;
+  return { audio: await generateSpeech(text, voice), narration };
+};
+
+const pcmBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64.includes(',') ? base64.split(',')[1] : base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Wraps base64 PCM from the provider in a 44-byte RIFF header. */
+export const pcmToWav = (base64: string): Blob => {
+  const pcm = pcmBytes(base64);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) header.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, SPEECH_SAMPLE_RATE, true);
+  header.setUint32(28, SPEECH_SAMPLE_RATE * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+/** Splits the spoken text into sentences for the transcript, keeping the closing punctuation. */
+export const transcriptSentences = (text: string): string[] =>
+  text.match(/[^.!?。！？]+[.!?。！？]*["')\]]*\s*/g)?.map(s => s.trim()).filter(Boolean) ?? [];
+
+/**
+ * Start of each sentence as a share of the whole recording. Speech carries no word timings, so each
+ * sentence is given time in proportion to its length.
+ */
+export const sentenceStarts = (sentences: string[]): number[] => {
+  const total = sentences.reduce((sum, s) => sum + s.length, 0) || 1;
+  let elapsed = 0;
+  return sentences.map(s => {
+    const start = elapsed / total;
+    elapsed += s.length;
+    return start;
+  });
+};
+
+export const activeSentence = (starts: number[], progress: number): number => {
+  let index = 0;
+  starts.forEach((start, i) => { if (progress >= start) index = i; });
+  return index;
+};
+
+export const formatTime = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds || 0));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
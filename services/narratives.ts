@@ -0,0 +1,32 @@
+import { NarrativeAudience, ReconstructionData } from "../types";
+import { writeNarrative } from "./geminiService";
+
+// The same analysis retold for different visitors. The tour narrative comes with the analysis; the
+// others are written on first request and kept on the record so they are archived with the case.
+
+export const NARRATIVE_AUDIENCES: { id: NarrativeAudience; label: string; icon: string }[] = [
+  { id: 'tour', label: 'Tour', icon: 'fa-podcast' },
+  { id: 'children', label: 'Children', icon: 'fa-child-reaching' },
+  { id: 'general', label: 'Gallery Label', icon: 'fa-tag' },
+  { id: 'specialist', label: 'Specialist', icon: 'fa-microscope' },
+  { id: 'audioDescription', label: 'Audio Description', icon: 'fa-eye-low-vision' },
+];
+
+export const audienceLabel = (audience: NarrativeAudience = 'tour'): string =>
+  NARRATIVE_AUDIENCES.find(a => a.id === audience)?.label ?? audience;
+
+/** Undefined until that audience's narrative has been written. */
+export const narrativeFor = (data: ReconstructionData, audience: NarrativeAudience): string | undefined =>
+  audience === 'tour' ? data.analysis?.curatorNarrative : data.narratives?.[audience];
+
+/** Audio descriptions are written from the reconstruction render, so the model sees what it describes. */
+export const composeNarrative = async (data: ReconstructionData, audience: Exclude<NarrativeAudience, 'tour'>): Promise<string> => {
+  const analysis = data.analysis;
+  if (!analysis) throw new Error("Cannot write a narrative before the analysis is complete.");
+  return writeNarrative(analysis, audience, audience === 'audioDescription' ? data.pastImage : null, analysis.mode ?? 'old');
+};
+
+export const withNarrative = (data: ReconstructionData, audience: Exclude<NarrativeAudience, 'tour'>, text: string): ReconstructionData => ({
+  ...data,
+  narratives: { ...data.narratives, [audience]: text },
+});
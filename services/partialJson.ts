@@ -0,0 +1,65 @@
+// Best-effort parsing of a JSON document that is still streaming in. The text is cut back to the
+// last point where it can be closed cleanly, then every open string, array and object is closed.
+
+interface Scan {
+  stack: string[];
+  inString: boolean;
+  /** Offsets (exclusive) where the text can be cut and still close into valid JSON, latest last. */
+  boundaries: number[];
+}
+
+const scan = (text: string): Scan => {
+  const stack: string[] = [];
+  const boundaries: number[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      boundaries.push(i + 1);
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      boundaries.push(i + 1);
+    } else if (ch === ',') {
+      boundaries.push(i);
+    }
+  }
+  return { stack, inString, boundaries };
+};
+
+const close = (text: string): string => {
+  const { stack, inString } = scan(text);
+  // A dangling escape would swallow the closing quote.
+  const body = inString ? text.replace(/\\$/, '') + '"' : text.replace(/[,:]\s*$/, '');
+  return body + stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+};
+
+/** Removes a markdown code fence around model JSON; the closing fence may not have arrived yet. */
+export const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+const MAX_BACKOFF = 12;
+
+/** Returns the most complete value the prefix supports, or undefined if nothing parses yet. */
+export const parsePartialJson = (text: string): unknown => {
+  const source = stripCodeFence(text);
+  if (!source) return undefined;
+  const { boundaries } = scan(source);
+  const cuts = [source.length, ...boundaries.slice(-MAX_BACKOFF).reverse()];
+  for (const cut of cuts) {
+    try {
+      return JSON.parse(close(source.slice(0, cut)));
+    } catch {
+      // Try the next earlier cut.
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,173 @@
+import { AnalysisDraft, ArtifactAnalysis, ArtifactMode, ArtifactView, ConsistencyCheck, GeneratedAsset, Narration, ReconstructionData } from "../types";
+import { generateImage } from "./geminiService";
+import { getProvider } from "./aiProvider";
+import { applyVariant, emptyVariants, renderVariant } from "./hypotheses";
+import { MAX_RENDER_ATTEMPTS, assessRender } from "./consistencyCheck";
+import { NarrationOptions, narrate } from "./narration";
+import { analyzeWithSelfConsistency } from "./confidence";
+import { findReferenceMatches } from "./referenceCatalogue";
+
+export type PipelineStage = 'analyzing' | 'generating';
+
+export const GENERATED_ASSETS: GeneratedAsset[] = ['pastImage', 'presentImage', 'audioBlob'];
+
+export interface RegenerateOptions extends NarrationOptions {
+  /** Replaces the analysis' visualPrompt for this image before rendering. */
+  prompt?: string;
+  seed?: number;
+  /** Text to narrate instead of the analysis' curatorNarrative. */
+  script?: string;
+}
+
+export interface AssetResult {
+  asset: GeneratedAsset;
+  value: string | null;
+  error?: string;
+  prompt?: string;
+  seed?: number;
+  consistency?: ConsistencyCheck;
+  narration?: Narration;
+}
+
+// The reconstruction is re-rendered when it drifts from the fragment; the closest attempt is kept and
+// flagged if none passes. A retry that fails outright or can't be scored keeps the best earlier render.
+const renderReconstruction = async (
+  visualPrompt: string,
+  analysis: ArtifactAnalysis,
+  mode: ArtifactMode,
+  seed: number | undefined,
+  reference: string
+): Promise<Pick<AssetResult, 'value' | 'seed' | 'consistency'>> => {
+  let best: { value: string; seed?: number; consistency: ConsistencyCheck } | null = null;
+  for (let attempt = 1; attempt <= MAX_RENDER_ATTEMPTS; attempt++) {
+    const attemptSeed = seed === undefined ? undefined : seed + attempt - 1;
+    let value: string;
+    try {
+      value = await generateImage(visualPrompt, mode, attemptSeed, reference);
+    } catch (err) {
+      if (best) break;
+      throw err;
+    }
+    const consistency = await assessRender(reference, value, analysis.damageAnalysis.regions, attempt);
+    if (!consistency) {
+      if (best) break;
+      return { value, seed: attemptSeed };
+    }
+    if (!best || consistency.similarity > best.consistency.similarity) best = { value, seed: attemptSeed, consistency };
+    best.consistency = { ...best.consistency, attempts: attempt };
+    if (consistency.passed) break;
+  }
+  return best!;
+};
+
+/**
+ * Renders one asset from a finished analysis. Never rejects; failures come back as `error`.
+ * `reference` is the fragment photo; both images are conditioned on it and the reconstruction is checked against it.
+ */
+export const generateAsset = async (
+  asset: GeneratedAsset,
+  analysis: ArtifactAnalysis,
+  mode: ArtifactMode,
+  { prompt, seed, voice, language, audience, script }: RegenerateOptions = {},
+  reference?: string | null
+): Promise<AssetResult> => {
+  try {
+    if (asset === 'audioBlob') {
+      const { audio, narration } = await narrate(script ?? analysis.curatorNarrative, { voice, language, audience });
+      return { asset, value: audio, narration };
+    }
+    const visualPrompt = prompt ?? (asset === 'pastImage' ? analysis.pastReconstruction.visualPrompt : analysis.modernRestoration.visualPrompt);
+    if (asset === 'pastImage' && reference) {
+      return { asset, prompt, ...(await renderReconstruction(visualPrompt, analysis, mode, seed, reference)) };
+    }
+    return { asset, value: await generateImage(visualPrompt, mode, seed, reference ?? undefined), prompt, seed };
+  } catch (err: any) {
+    console.error(`Generating ${asset} failed`, err);
+    return { asset, value: null, error: err?.message || 'Generation failed.', prompt, seed };
+  }
+};
+
+/**
+ * Folds an asset result into the record. A failed regeneration keeps the previous asset, and an
+ * edited prompt is written back into the analysis so it is saved with the case.
+ */
+export const applyAssetResult = (data: ReconstructionData, result: AssetResult): ReconstructionData => {
+  const { [result.asset]: _previousError, ...assetErrors } = data.assetErrors ?? {};
+  const next: ReconstructionData = {
+    ...data,
+    [result.asset]: result.value ?? data[result.asset] ?? null,
+    assetErrors: result.error ? { ...assetErrors, [result.asset]: result.error } : assetErrors,
+  };
+  if (result.value && result.asset !== 'audioBlob') {
+    const { [result.asset]: _previousSeed, ...assetSeeds } = data.assetSeeds ?? {};
+    next.assetSeeds = result.seed === undefined ? assetSeeds : { ...assetSeeds, [result.asset]: result.seed };
+  }
+  if (result.value && result.asset === 'pastImage') next.consistency = result.consistency;
+  if (result.value && result.asset === 'audioBlob') next.narration = result.narration;
+  if (result.value && result.prompt !== undefined && data.analysis) {
+    next.analysis = result.asset === 'pastImage'
+      ? { ...data.analysis, pastReconstruction: { ...data.analysis.pastReconstruction, visualPrompt: result.prompt } }
+      : { ...data.analysis, modernRestoration: { ...data.analysis.modernRestoration, visualPrompt: result.prompt } };
+  }
+  return next;
+};
+
+/**
+ * Full scan of one artifact: analysis first, then both reconstructions, the narration and one render
+ * per alternative hypothesis in parallel.
+ * `onProgress` receives the partial record at the start of each stage and again as each generated
+ * asset lands; `onDraft` receives the analysis as it streams in. `consistencyRuns` above 1 analyses the
+ * photographs that many times and scores agreement between the runs. The nearest objects in the local
+ * reference catalogue are looked up first and handed to the analysis. Only analysis failures reject —
+ * a failed asset is recorded in `assetErrors` so it can be regenerated later.
+ */
+export const runReconstruction = async (
+  views: ArtifactView[],
+  context: string,
+  mode: ArtifactMode,
+  onProgress?: (stage: PipelineStage, partial: ReconstructionData) => void,
+  onDraft?: (draft: AnalysisDraft) => void,
+  consistencyRuns = 1
+): Promise<ReconstructionData> => {
+  const provider = getProvider();
+  let base: ReconstructionData = {
+    analysis: null,
+    originalImage: views[0].image,
+    pastImage: null,
+    presentImage: null,
+    views,
+    provenance: { provider: provider.label, models: { ...provider.models }, generatedAt: Date.now() },
+  };
+  onProgress?.('analyzing', base);
+
+  // The catalogue is an aid; an empty or unreadable one must not stop the scan.
+  const referenceMatches = await findReferenceMatches(views[0].image).catch(err => {
+    console.warn('Reference catalogue lookup failed', err);
+    return [];
+  });
+  if (referenceMatches.length) {
+    base = { ...base, referenceMatches };
+    onProgress?.('analyzing', base);
+  }
+
+  const analysis = await analyzeWithSelfConsistency(views, context, mode, consistencyRuns, onDraft, referenceMatches);
+  let current: ReconstructionData = { ...base, analysis, audioBlob: null, variants: emptyVariants(analysis) };
+  onProgress?.('generating', current);
+
+  await Promise.all([
+    ...GENERATED_ASSETS.map(asset =>
+      generateAsset(asset, analysis, mode, {}, base.originalImage).then(result => {
+        current = applyAssetResult(current, result);
+        onProgress?.('generating', current);
+      })
+    ),
+    ...(analysis.alternatives ?? []).map((hypothesis, index) =>
+      renderVariant(hypothesis, mode, 0, base.originalImage).then(variant => {
+        current = applyVariant(current, index, variant);
+        onProgress?.('generating', current);
+      })
+    ),
+  ]);
+
+  return { ...current, provenance: { ...base.provenance!, generatedAt: Date.now() } };
+};
@@ -0,0 +1,218 @@
+import { ArtifactAnalysis, ArtifactMode, ArtifactView, ChatMessage, ChatRefinement, ConsistencyCheck, CuratorReview, GeneratedAsset, GenerationProvenance, HypothesisVariant, ImageVersion, Narration, NarrativeAudience, ReconstructionData, ReferenceMatch, ReviewEdit, ShardAssembly, ShardEdge, ShardJoin, ShardPlacement } from "../types";
+import { validateAnalysis } from "./analysisValidator";
+import { isWebUrl } from "./citations";
+import { REVIEW_STATUSES } from "./curatorReview";
+import { VIEW_ROLES } from "./imageFiles";
+import { NARRATIVE_AUDIENCES } from "./narratives";
+
+// Checks a record read from a native export. The analysis goes through validateAnalysis; every other
+// field is rebuilt from what passes its check and dropped otherwise, since shared files are untrusted
+// and the dashboard, reports and exports assume each field has its declared shape.
+
+type Obj = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Obj =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+/** Images are data URLs or web addresses; nothing else is ever put in an img src. */
+const isImage = (value: unknown): value is string =>
+  isString(value) && (/^data:image\//.test(value) || isWebUrl(value));
+
+const optionalImage = (value: unknown): string | null => (isImage(value) ? value : null);
+
+const listOf = <T>(value: unknown, item: (raw: unknown) => T | null): T[] | undefined =>
+  Array.isArray(value) ? value.flatMap(raw => { const v = item(raw); return v === null ? [] : [v]; }) : undefined;
+
+const SHARD_EDGES: ShardEdge[] = ['top', 'right', 'bottom', 'left'];
+const GENERATED_ASSETS: GeneratedAsset[] = ['pastImage', 'presentImage', 'audioBlob'];
+const AUDIENCES = NARRATIVE_AUDIENCES.map(a => a.id);
+
+const validateView = (raw: unknown): ArtifactView | null =>
+  isObject(raw) && VIEW_ROLES.includes(raw.role as ArtifactView['role']) && isImage(raw.image)
+    ? { role: raw.role as ArtifactView['role'], image: raw.image }
+    : null;
+
+const validateNarration = (raw: unknown): Narration | undefined => {
+  if (!isObject(raw) || !isString(raw.voice) || !isString(raw.language) || !isString(raw.text)) return undefined;
+  const narration: Narration = { voice: raw.voice, language: raw.language, text: raw.text };
+  if (AUDIENCES.includes(raw.audience as NarrativeAudience)) narration.audience = raw.audience as NarrativeAudience;
+  return narration;
+};
+
+const validateNarratives = (raw: unknown): ReconstructionData['narratives'] => {
+  if (!isObject(raw)) return undefined;
+  const entries = Object.entries(raw).filter(([key, value]) => key !== 'tour' && AUDIENCES.includes(key as NarrativeAudience) && isString(value));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const validateProvenance = (raw: unknown): GenerationProvenance | undefined => {
+  if (!isObject(raw) || !isString(raw.provider) || !isNumber(raw.generatedAt) || !isObject(raw.models)) return undefined;
+  const { analysis, image, speech } = raw.models;
+  if (!isString(analysis) || !isString(image) || !isString(speech)) return undefined;
+  return { provider: raw.provider, models: { analysis, image, speech }, generatedAt: raw.generatedAt };
+};
+
+const validateAssetErrors = (raw: unknown): ReconstructionData['assetErrors'] => {
+  if (!isObject(raw)) return undefined;
+  const entries = Object.entries(raw).filter(([key, value]) => GENERATED_ASSETS.includes(key as GeneratedAsset) && isString(value));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const validateAssetSeeds = (raw: unknown): ReconstructionData['assetSeeds'] => {
+  if (!isObject(raw)) return undefined;
+  const entries = Object.entries(raw).filter(([key, value]) => (key === 'pastImage' || key === 'presentImage') && isNumber(value));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const validateVariant = (raw: unknown): HypothesisVariant => {
+  const variant: HypothesisVariant = { image: null, votes: 0 };
+  if (!isObject(raw)) return variant;
+  variant.image = optionalImage(raw.image);
+  if (isString(raw.error)) variant.error = raw.error;
+  if (Number.isInteger(raw.votes) && (raw.votes as number) > 0) variant.votes = raw.votes as number;
+  return variant;
+};
+
+// Variants are kept index-aligned with the alternatives they render.
+const validateVariants = (raw: unknown, analysis: ArtifactAnalysis | null): HypothesisVariant[] | undefined => {
+  if (!Array.isArray(raw) || !analysis?.alternatives?.length) return undefined;
+  return analysis.alternatives.map((_, i) => validateVariant(raw[i]));
+};
+
+const validateAssembly = (raw: unknown): ShardAssembly | undefined => {
+  if (!isObject(raw) || !Array.isArray(raw.fragments) || !raw.fragments.every(isImage)) return undefined;
+  const fragments = raw.fragments as string[];
+  const joins = listOf(raw.joins, (j): ShardJoin | null =>
+    isObject(j) && isIndex(j.a, fragments.length) && isIndex(j.b, fragments.length) && j.a !== j.b
+      && SHARD_EDGES.includes(j.aEdge as ShardEdge) && SHARD_EDGES.includes(j.bEdge as ShardEdge) && isNumber(j.confidence)
+      ? { a: j.a, aEdge: j.aEdge as ShardEdge, b: j.b, bEdge: j.bEdge as ShardEdge, confidence: Math.min(100, Math.max(0, j.confidence)), rationale: isString(j.rationale) ? j.rationale : '' }
+      : null
+  );
+  const placements = listOf(raw.placements, (p): ShardPlacement | null =>
+    isObject(p) && isNumber(p.x) && isNumber(p.z) && isNumber(p.rotation) ? { x: p.x, z: p.z, rotation: p.rotation } : null
+  );
+  // Join indices would no longer line up if any join was dropped, so the whole assembly goes instead.
+  if (!joins || joins.length !== (raw.joins as unknown[]).length || placements?.length !== fragments.length) return undefined;
+  const confirmed = listOf(raw.confirmed, i => (isIndex(i, joins.length) ? i : null)) ?? [];
+  return { fragments, joins, placements, confirmed };
+};
+
+const validateReview = (raw: unknown): CuratorReview | undefined => {
+  if (!isObject(raw) || !REVIEW_STATUSES.includes(raw.status as CuratorReview['status'])) return undefined;
+  const history = listOf(raw.history, (e): ReviewEdit | null => {
+    if (!isObject(e) || !isNumber(e.at) || !isString(e.path)) return null;
+    const edit: ReviewEdit = { at: e.at, path: e.path, before: e.before, after: e.after };
+    if (e.replaced === 'ai' || e.replaced === 'curator') edit.replaced = e.replaced;
+    if (isString(e.reviewer)) edit.reviewer = e.reviewer;
+    return edit;
+  }) ?? [];
+  const review: CuratorReview = {
+    status: raw.status as CuratorReview['status'],
+    history,
+    curated: listOf(raw.curated, p => (isString(p) ? p : null)) ?? [],
+  };
+  if (isString(raw.reviewer)) review.reviewer = raw.reviewer;
+  return review;
+};
+
+const validateRefinement = (raw: unknown): ChatRefinement | null => {
+  if (!isObject(raw) || !isString(raw.field) || !isString(raw.value)) return null;
+  const refinement: ChatRefinement = { field: raw.field, value: raw.value, reason: isString(raw.reason) ? raw.reason : '' };
+  if (raw.applied === true) refinement.applied = true;
+  return refinement;
+};
+
+const validateChatMessage = (raw: unknown): ChatMessage | null => {
+  if (!isObject(raw) || (raw.role !== 'user' && raw.role !== 'model') || !isString(raw.text) || !isNumber(raw.at)) return null;
+  const message: ChatMessage = { role: raw.role, text: raw.text, at: raw.at };
+  const sources = listOf(raw.sources, s => (isObject(s) && isString(s.uri) && isWebUrl(s.uri) ? { title: isString(s.title) ? s.title : s.uri, uri: s.uri } : null));
+  if (sources) message.sources = sources;
+  const refinements = listOf(raw.refinements, validateRefinement);
+  if (refinements) message.refinements = refinements;
+  if (isString(raw.renderPrompt)) message.renderPrompt = raw.renderPrompt;
+  if (raw.rendered === true) message.rendered = true;
+  return message;
+};
+
+const validateImageVersion = (raw: unknown): ImageVersion | null => {
+  if (!isObject(raw) || !isImage(raw.image) || !isNumber(raw.at)) return null;
+  const version: ImageVersion = { image: raw.image, at: raw.at };
+  if (isString(raw.instruction)) version.instruction = raw.instruction;
+  if (isString(raw.mask) && /^data:image\//.test(raw.mask)) version.mask = raw.mask;
+  return version;
+};
+
+const validateConsistency = (raw: unknown): ConsistencyCheck | undefined =>
+  isObject(raw) && isNumber(raw.similarity) && isNumber(raw.coverage) && typeof raw.passed === 'boolean' && Number.isInteger(raw.attempts)
+    ? { similarity: raw.similarity, coverage: raw.coverage, passed: raw.passed, attempts: raw.attempts as number }
+    : undefined;
+
+const REFERENCE_TEXT_FIELDS = ['accession', 'type', 'civilization', 'era', 'material', 'region', 'notes'] as const;
+
+const validateReferenceMatch = (raw: unknown): ReferenceMatch | null => {
+  if (!isObject(raw) || !isString(raw.id) || !isString(raw.title) || !isImage(raw.image) || !isNumber(raw.similarity)) return null;
+  const match: ReferenceMatch = { id: raw.id, title: raw.title, image: raw.image, similarity: Math.min(100, Math.max(0, raw.similarity)) };
+  REFERENCE_TEXT_FIELDS.forEach(field => { if (isString(raw[field])) match[field] = raw[field]; });
+  return match;
+};
+
+export interface RecordValidationResult {
+  data: ReconstructionData | null;
+  /** Why the analysis was unusable; malformed optional fields are dropped without an error. */
+  errors: string[];
+}
+
+/** Rebuilds an imported record from the fields that pass their checks; unknown or malformed fields are left out. */
+export const validateRecordData = (raw: unknown): RecordValidationResult => {
+  if (!isObject(raw)) return { data: null, errors: ['data must be an object'] };
+  const views = listOf(raw.views, validateView);
+  const mode: ArtifactMode = isObject(raw.analysis) && raw.analysis.mode === 'new' ? 'new' : 'old';
+  const { analysis, errors } = validateAnalysis(raw.analysis, { mode, viewCount: views?.length || 1, stored: true });
+  if (!analysis) return { data: null, errors };
+
+  const data: ReconstructionData = {
+    analysis,
+    pastImage: optionalImage(raw.pastImage),
+    presentImage: optionalImage(raw.presentImage),
+    originalImage: optionalImage(raw.originalImage),
+  };
+  if (isString(raw.audioBlob) && /^[A-Za-z0-9+/=\s]*$/.test(raw.audioBlob)) data.audioBlob = raw.audioBlob;
+
+  if (views?.length) data.views = views;
+  const versions = listOf(raw.pastImageVersions, validateImageVersion);
+  if (versions?.length) {
+    data.pastImageVersions = versions;
+    data.pastImageVersion = isIndex(raw.pastImageVersion, versions.length) ? raw.pastImageVersion : versions.length - 1;
+  }
+  const chat = listOf(raw.chat, validateChatMessage);
+  if (chat?.length) data.chat = chat;
+  const referenceMatches = listOf(raw.referenceMatches, validateReferenceMatch);
+  if (referenceMatches?.length) data.referenceMatches = referenceMatches;
+  const voters = listOf(raw.voters, v => (isString(v) ? v : null));
+  if (voters?.length) data.voters = voters;
+  if (Number.isInteger(raw.primaryVotes) && (raw.primaryVotes as number) > 0) data.primaryVotes = raw.primaryVotes as number;
+  if (raw.hypothesisAccepted === true) data.hypothesisAccepted = true;
+
+  const optional: Partial<ReconstructionData> = {
+    narration: validateNarration(raw.narration),
+    narratives: validateNarratives(raw.narratives),
+    provenance: validateProvenance(raw.provenance),
+    assetErrors: validateAssetErrors(raw.assetErrors),
+    assetSeeds: validateAssetSeeds(raw.assetSeeds),
+    variants: validateVariants(raw.variants, analysis),
+    assembly: validateAssembly(raw.assembly),
+    review: validateReview(raw.review),
+    consistency: validateConsistency(raw.consistency),
+  };
+  Object.entries(optional).forEach(([key, value]) => {
+    if (value !== undefined) (data as any)[key] = value;
+  });
+  return { data, errors: [] };
+};
@@ -0,0 +1,284 @@
+import { ReferenceMatch, ReferenceMetadata, ReferenceObject } from "../types";
+import { EMBEDDING_VERSION, cosineSimilarity, embedImage } from "./imageEmbedding";
+import { readFileAsDataUrl } from "./imageFiles";
+
+// The museum's own catalogue of identified objects, kept in the browser next to the case library.
+// Each photograph is stored as a thumbnail with its embedding so a new fragment can be compared
+// against the whole catalogue without re-reading the original files.
+
+const DB_NAME = 'artifact-reference-catalogue';
+const DB_VERSION = 1;
+const STORE = 'references';
+
+const THUMBNAIL_SIZE = 256;
+/** Matches below this similarity are noise rather than comparanda and are not shown or sent. */
+export const MIN_SIMILARITY = 40;
+export const DEFAULT_MATCH_COUNT = 5;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Reference catalogue unavailable: this browser has no IndexedDB support."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+const putReferences = async (records: ReferenceObject[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    records.forEach(record => tx.objectStore(STORE).put(record));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const listReferences = async (): Promise<ReferenceObject[]> => {
+  const records = await withStore<ReferenceObject[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const deleteReference = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+export const clearReferences = (): Promise<undefined> =>
+  withStore('readwrite', store => store.clear());
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the catalogue photograph."));
+    img.src = src;
+  });
+
+const thumbnail = async (src: string): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is unavailable, so the catalogue cannot be imported.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/** Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+  return rows;
+};
+
+// Museum exports name the same columns differently; the first alias present wins.
+const FIELD_ALIASES: Record<keyof ReferenceMetadata | 'image', string[]> = {
+  title: ['title', 'name', 'object name', 'objectname', 'object'],
+  accession: ['accession', 'accession number', 'accessionnumber', 'object number', 'objectnumber', 'inventory', 'id'],
+  type: ['type', 'object type', 'objecttype', 'classification', 'category'],
+  civilization: ['civilization', 'civilisation', 'culture', 'maker', 'manufacturer'],
+  era: ['era', 'period', 'date', 'dating', 'production decade'],
+  material: ['material', 'materials', 'medium'],
+  region: ['region', 'place', 'findspot', 'provenance', 'country'],
+  notes: ['notes', 'description', 'remarks'],
+  image: ['image', 'file', 'filename', 'photo', 'image file', 'imageurl', 'image url', 'url'],
+};
+
+type CatalogueRow = ReferenceMetadata & { image?: string };
+
+const normalizeRow = (raw: Record<string, unknown>): CatalogueRow | null => {
+  const lookup = new Map(Object.entries(raw).map(([key, value]) => [key.trim().toLowerCase().replace(/_/g, ' '), value]));
+  const pick = (field: keyof typeof FIELD_ALIASES) => {
+    for (const alias of FIELD_ALIASES[field]) {
+      const value = lookup.get(alias);
+      if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+    }
+    return undefined;
+  };
+  const row: CatalogueRow = {
+    title: pick('title') ?? pick('type') ?? pick('accession') ?? '',
+    accession: pick('accession'),
+    type: pick('type'),
+    civilization: pick('civilization'),
+    era: pick('era'),
+    material: pick('material'),
+    region: pick('region'),
+    notes: pick('notes'),
+    image: pick('image'),
+  };
+  return row.title || row.image ? row : null;
+};
+
+/** Reads a catalogue metadata file: a JSON array (or an object with an `objects` array) or a CSV with a header row. */
+export const parseCatalogueMetadata = (text: string, filename: string): CatalogueRow[] => {
+  if (/\.csv$/i.test(filename)) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    return rows.flatMap(cells => {
+      const row = normalizeRow(Object.fromEntries(header.map((key, i) => [key, cells[i] ?? ''])));
+      return row ? [row] : [];
+    });
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`${filename} is not valid JSON.`);
+  }
+  const items = Array.isArray(parsed) ? parsed : parsed?.objects ?? parsed?.items;
+  if (!Array.isArray(items)) throw new Error(`${filename} must contain a list of catalogue objects.`);
+  return items.flatMap(item => {
+    const row = item && typeof item === 'object' ? normalizeRow(item) : null;
+    return row ? [row] : [];
+  });
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+const stem = (path: string) => baseName(path).replace(/\.[^.]+$/, '');
+
+const isMetadataFile = (file: File) => /\.(json|csv)$/i.test(file.name);
+
+const referenceId = (row: CatalogueRow, index: number) =>
+  row.accession ? `acc:${row.accession.toLowerCase()}` : row.image ? `img:${baseName(row.image)}` : `row:${row.title.toLowerCase()}:${index}`;
+
+export interface CatalogueImportResult {
+  imported: number;
+  /** One line per row that could not be imported, with the reason. */
+  skipped: string[];
+}
+
+/**
+ * Imports a selection of metadata files (.json/.csv) and photographs. Rows find their photograph by
+ * file name among the selected images, or load it from a data or web URL; images without a row are
+ * imported under their file name. Re-importing an accession number replaces the earlier entry.
+ */
+export const importCatalogue = async (files: File[]): Promise<CatalogueImportResult> => {
+  const images = files.filter(f => f.type.startsWith('image/'));
+  const byName = new Map(images.map(f => [baseName(f.name), f]));
+  const byStem = new Map(images.map(f => [stem(f.name), f]));
+
+  const rows: CatalogueRow[] = [];
+  for (const file of files.filter(isMetadataFile)) {
+    rows.push(...parseCatalogueMetadata(await file.text(), file.name));
+  }
+  const claimed = new Set<File>();
+  const sources = rows.map(row => {
+    const file = row.image ? byName.get(baseName(row.image)) ?? byStem.get(stem(row.image)) : undefined;
+    if (file) claimed.add(file);
+    return file;
+  });
+  images.filter(f => !claimed.has(f)).forEach(file => {
+    rows.push({ title: file.name.replace(/\.[^.]+$/, ''), image: file.name });
+    sources.push(file);
+  });
+
+  const records: ReferenceObject[] = [];
+  const skipped: string[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const { image: ref, ...metadata } = rows[i];
+    const label = metadata.accession || metadata.title || ref || `row ${i + 1}`;
+    const file = sources[i];
+    const src = file ? await readFileAsDataUrl(file) : ref && /^(data:image\/|https?:\/\/)/.test(ref) ? ref : null;
+    if (!src) {
+      skipped.push(`${label}: ${ref ? `image "${ref}" was not among the selected files` : 'no image given'}`);
+      continue;
+    }
+    try {
+      const image = await thumbnail(src);
+      records.push({
+        ...metadata,
+        title: metadata.title || label,
+        id: referenceId(rows[i], i),
+        image,
+        embedding: await embedImage(image),
+        embeddingVersion: EMBEDDING_VERSION,
+        importedAt: Date.now(),
+      });
+    } catch (err: any) {
+      skipped.push(`${label}: ${err?.message || 'the image could not be read'}`);
+    }
+  }
+  await putReferences(records);
+  return { imported: records.length, skipped };
+};
+
+/** Recomputes embeddings made by an older descriptor and stores them so it only happens once. */
+const refreshEmbeddings = async (records: ReferenceObject[]): Promise<ReferenceObject[]> => {
+  const stale = records.filter(r => r.embeddingVersion !== EMBEDDING_VERSION);
+  if (!stale.length) return records;
+  const refreshed = new Map<string, ReferenceObject>();
+  for (const record of stale) {
+    try {
+      refreshed.set(record.id, { ...record, embedding: await embedImage(record.image), embeddingVersion: EMBEDDING_VERSION });
+    } catch (err) {
+      console.warn(`Could not re-embed catalogue object ${record.id}`, err);
+    }
+  }
+  await putReferences([...refreshed.values()]);
+  return records.flatMap(r => (r.embeddingVersion === EMBEDDING_VERSION ? [r] : refreshed.has(r.id) ? [refreshed.get(r.id)!] : []));
+};
+
+/** Closest catalogue objects to a fragment photograph, most similar first; empty when the catalogue is. */
+export const findReferenceMatches = async (image: string, limit = DEFAULT_MATCH_COUNT): Promise<ReferenceMatch[]> => {
+  const records = await refreshEmbeddings(await listReferences());
+  if (!records.length) return [];
+  const query = await embedImage(image);
+  return records
+    .map(({ embedding, embeddingVersion: _version, importedAt: _importedAt, ...rest }) => ({
+      ...rest,
+      similarity: Math.round(Math.max(0, cosineSimilarity(query, embedding)) * 100),
+    }))
+    .filter(match => match.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
@@ -0,0 +1,97 @@
+import { ArtifactMode, ImageVersion, ReconstructionData } from "../types";
+import { editImageRegion } from "./geminiService";
+
+// Region edits: the user paints a mask over the reconstruction, the image model redraws that area,
+// and the result is composited back through the mask so everything outside it stays pixel-identical.
+
+/** Resolution of the paint canvas; masks are scaled to the image when composited. */
+export const MASK_SIZE = 512;
+
+/** Soft edge, in image pixels, where the edit blends into the untouched render. */
+const FEATHER = 6;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the image for the region edit."));
+    img.src = src;
+  });
+
+/** Black-and-white PNG of whatever was painted on `paint`, or null when nothing was. */
+export const maskFromPaint = (paint: HTMLCanvasElement): string | null => {
+  const ctx = paint.getContext('2d');
+  if (!ctx) return null;
+  const pixels = ctx.getImageData(0, 0, paint.width, paint.height);
+  let painted = false;
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const on = pixels.data[i + 3] > 0;
+    painted ||= on;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = on ? 255 : 0;
+    pixels.data[i + 3] = 255;
+  }
+  if (!painted) return null;
+
+  const mask = document.createElement('canvas');
+  mask.width = paint.width;
+  mask.height = paint.height;
+  mask.getContext('2d')!.putImageData(pixels, 0, 0);
+  return mask.toDataURL('image/png');
+};
+
+/** Lays `edited` over `original` only where `mask` is white, at the original's resolution. */
+export const compositeRegion = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [base, patch, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d');
+  if (!layerCtx) throw new Error("Canvas is unavailable for compositing the region edit.");
+  layerCtx.filter = `blur(${FEATHER}px)`;
+  layerCtx.drawImage(maskImg, 0, 0, width, height);
+  layerCtx.filter = 'none';
+  // Mask luminance becomes the patch's alpha.
+  const alpha = layerCtx.getImageData(0, 0, width, height);
+  layerCtx.clearRect(0, 0, width, height);
+  layerCtx.drawImage(patch, 0, 0, width, height);
+  const patchPixels = layerCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < patchPixels.data.length; i += 4) patchPixels.data[i + 3] = alpha.data[i];
+  layerCtx.putImageData(patchPixels, 0, 0);
+
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext('2d')!;
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return out.toDataURL('image/png');
+};
+
+/** Regenerates the masked part of `image`. Rejects if the model call fails. */
+export const renderRegionEdit = async (image: string, mask: string, instruction: string, mode: ArtifactMode): Promise<ImageVersion> => {
+  const edited = await editImageRegion(image, mask, instruction, mode);
+  return { image: await compositeRegion(image, edited, mask), at: Date.now(), instruction, mask };
+};
+
+export const versionsOf = (data: ReconstructionData): ImageVersion[] => data.pastImageVersions ?? [];
+
+/**
+ * Adds a region edit as the newest version and shows it. The render it was made from is recorded
+ * first if it is not already a version (the first edit, or a full regeneration since the last one).
+ */
+export const pushVersion = (data: ReconstructionData, version: ImageVersion): ReconstructionData => {
+  const versions = versionsOf(data);
+  const current = versions[data.pastImageVersion ?? -1];
+  const base = !data.pastImage || current?.image === data.pastImage ? [] : [{ image: data.pastImage, at: Date.now() }];
+  const next = [...versions, ...base, version];
+  return { ...data, pastImage: version.image, pastImageVersions: next, pastImageVersion: next.length - 1 };
+};
+
+/** Steps to another version; later versions are kept so the user can step forward again. */
+export const selectVersion = (data: ReconstructionData, index: number): ReconstructionData => {
+  const version = versionsOf(data)[index];
+  return version ? { ...data, pastImage: version.image, pastImageVersion: index } : data;
+};
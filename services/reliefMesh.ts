@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+
+// Builds 2.5D relief meshes from photos: luminance drives depth, and a background estimate taken
+// from the image border decides which pixels belong to the object at all.
+
+export const RELIEF_GRID = 128;
+
+const BACKGROUND_THRESHOLD = 38;
+const RELIEF_DEPTH = 0.25;
+const SLAB_THICKNESS = 0.08;
+
+export interface ReliefSample {
+  size: number;
+  /** Smoothed 0-1 brightness per grid cell, used as height. */
+  height: Float32Array;
+  /** 1 where the cell belongs to the object, 0 for background. */
+  mask: Uint8Array;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image for 3D reconstruction."));
+    img.src = src;
+  });
+
+const boxBlur = (values: Float32Array, size: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+          sum += values[ny * size + nx];
+          count++;
+        }
+      }
+      out[y * size + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+export const sampleImage = async (src: string, size = RELIEF_GRID): Promise<ReliefSample> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is unavailable for 3D reconstruction.");
+  ctx.drawImage(img, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+
+  // Average border colour stands in for the backdrop.
+  let br = 0, bg = 0, bb = 0, borderCount = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (x !== 0 && y !== 0 && x !== size - 1 && y !== size - 1) continue;
+      const i = (y * size + x) * 4;
+      br += data[i]; bg += data[i + 1]; bb += data[i + 2];
+      borderCount++;
+    }
+  }
+  br /= borderCount; bg /= borderCount; bb /= borderCount;
+
+  const luminance = new Float32Array(size * size);
+  const mask = new Uint8Array(size * size);
+  for (let p = 0; p < size * size; p++) {
+    const i = p * 4;
+    luminance[p] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+    const distance = Math.hypot(data[i] - br, data[i + 1] - bg, data[i + 2] - bb);
+    mask[p] = distance > BACKGROUND_THRESHOLD ? 1 : 0;
+  }
+
+  return { size, height: boxBlur(luminance, size), mask };
+};
+
+/** Cells present in `full` but not in `partial`, i.e. the volume the reconstruction adds. */
+export const subtractMask = (full: ReliefSample, partial: ReliefSample): ReliefSample => {
+  const mask = new Uint8Array(full.mask.length);
+  for (let i = 0; i < mask.length; i++) mask[i] = full.mask[i] && !partial.mask[i] ? 1 : 0;
+  return { ...full, mask };
+};
+
+/**
+ * Front relief plus a flat back face, restricted to grid cells whose four corners are all in the mask.
+ * Spans [-1, 1] on x/y with UVs matching the source image.
+ */
+export const buildReliefGeometry = (sample: ReliefSample, depth = RELIEF_DEPTH, thickness = SLAB_THICKNESS): THREE.BufferGeometry => {
+  const { size, height, mask } = sample;
+  const vertexCount = size * size;
+  const positions = new Float32Array(vertexCount * 2 * 3);
+  const uvs = new Float32Array(vertexCount * 2 * 2);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = y * size + x;
+      const px = (x / (size - 1)) * 2 - 1;
+      const py = 1 - (y / (size - 1)) * 2;
+      positions.set([px, py, height[p] * depth], p * 3);
+      positions.set([px, py, -thickness], (p + vertexCount) * 3);
+      uvs.set([x / (size - 1), 1 - y / (size - 1)], p * 2);
+      uvs.set([x / (size - 1), 1 - y / (size - 1)], (p + vertexCount) * 2);
+    }
+  }
+
+  const indices: number[] = [];
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const a = y * size + x;
+      const b = a + 1;
+      const c = a + size;
+      const d = c + 1;
+      if (!(mask[a] && mask[b] && mask[c] && mask[d])) continue;
+      indices.push(a, c, b, b, c, d);
+      indices.push(a + vertexCount, b + vertexCount, c + vertexCount, b + vertexCount, d + vertexCount, c + vertexCount);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+export const loadTexture = async (src: string): Promise<THREE.Texture> => {
+  const texture = new THREE.Texture(await loadImage(src));
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+};
@@ -0,0 +1,194 @@
+import { ArtifactIdentification, ReconstructionData } from "../types";
+import { MODE_LABELS } from "../constants";
+import { describeValue, editLabel, reviewOf, sourceOf } from "./curatorReview";
+import { SOURCE_KIND_LABELS, citationNumbers, isWebUrl } from "./citations";
+import { dimensionLabel, overallConfidence } from "./confidence";
+
+const escapeHtml = (value: string | number | undefined | null) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const row = (label: string, value: string | undefined) =>
+  value ? `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>` : '';
+
+const citedRow = (label: string, value: string | undefined, marks: string) =>
+  value ? `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}${marks}</td></tr>` : '';
+
+const figure = (src: string | null | undefined, caption: string) =>
+  src ? `<figure><img src="${escapeHtml(src)}" alt="${escapeHtml(caption)}"><figcaption>${escapeHtml(caption)}</figcaption></figure>` : '';
+
+const STYLES = `
+  @page { size: A4; margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1c1917; margin: 0 auto; max-width: 800px; padding: 32px; line-height: 1.5; }
+  header { border-bottom: 3px solid #b8860b; padding-bottom: 12px; margin-bottom: 24px; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.15em; color: #b8860b; border-bottom: 1px solid #e7e5e4; padding-bottom: 4px; margin: 28px 0 12px; font-family: Helvetica, Arial, sans-serif; }
+  .meta { font: 11px/1.4 Helvetica, Arial, sans-serif; color: #78716c; }
+  .figures { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  figure { margin: 0; }
+  figure img { width: 100%; aspect-ratio: 1; object-fit: cover; border: 1px solid #d6d3d1; }
+  figcaption { font: 10px Helvetica, Arial, sans-serif; text-transform: uppercase; letter-spacing: 0.1em; color: #78716c; margin-top: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; width: 32%; color: #57534e; font-weight: normal; padding: 4px 8px 4px 0; vertical-align: top; }
+  td { padding: 4px 0; }
+  .score { font-size: 32px; font-weight: bold; color: #b8860b; }
+  ol.timeline { padding-left: 18px; font-size: 13px; }
+  ol.sources { font-size: 12px; word-break: break-all; }
+  .note { font-style: italic; color: #0369a1; }
+  sup { font: 9px Helvetica, Arial, sans-serif; color: #b8860b; }
+  .unverified { font: bold 9px Helvetica, Arial, sans-serif; text-transform: uppercase; letter-spacing: 0.1em; color: #b45309; border: 1px solid #fcd34d; padding: 0 4px; margin-left: 4px; }
+  table.history td, table.history th { font-size: 11px; border-top: 1px solid #e7e5e4; }
+  del { color: #b91c1c; }
+  ins { color: #15803d; text-decoration: none; }
+  .toolbar { position: fixed; top: 16px; right: 16px; }
+  .toolbar button { font: bold 11px Helvetica, Arial, sans-serif; text-transform: uppercase; letter-spacing: 0.1em; background: #b8860b; color: white; border: 0; padding: 10px 16px; border-radius: 999px; cursor: pointer; }
+  @media print { .toolbar { display: none; } body { padding: 0; } }
+`;
+
+/**
+ * Self-contained, printable HTML condition report. Images are inlined as data URLs so the
+ * file can be archived with the object record and printed to PDF from any browser.
+ */
+export const buildConditionReport = (data: ReconstructionData, context: string = ''): string => {
+  const analysis = data.analysis;
+  if (!analysis) throw new Error("Cannot build a report before the analysis is complete.");
+
+  const labels = MODE_LABELS[analysis.mode ?? 'old'];
+  const id = analysis.identification;
+  const provenance = data.provenance;
+  const generatedAt = new Date(provenance?.generatedAt ?? Date.now());
+  const review = reviewOf(data);
+  const features = analysis.pastReconstruction.hotspots.filter(h => !h.rejected);
+  const rejectedCount = analysis.pastReconstruction.hotspots.length - features.length;
+  // Curator-entered identification values are marked so the reader can tell them from model output.
+  const curated = (field: keyof ArtifactIdentification) => sourceOf(data, `analysis.identification.${field}`) === 'curator';
+  // Footnote numbers follow the Sources list; claims the search grounding did not back are flagged instead.
+  const cite = (field: string) => {
+    const numbers = citationNumbers(analysis, field);
+    if (!numbers) return '';
+    return numbers.length ? `<sup>${numbers.map(n => `[${n}]`).join('')}</sup>` : '<span class="unverified">Unverified</span>';
+  };
+  const idRow = (label: string, field: keyof ArtifactIdentification) =>
+    curated(field) ? row(`${label} †`, id[field]) : citedRow(label, id[field], cite(`identification.${field}`));
+  const hasCurated = review.curated.length > 0 || features.some(h => h.curated);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Condition Report - ${escapeHtml(id.type)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+<header>
+  <div class="meta">artifact.ai · ${escapeHtml(labels.title)} Condition Report</div>
+  <h1>${escapeHtml(id.type)}</h1>
+  <div class="meta">${escapeHtml(id.civilization)} · ${escapeHtml(id.era)}</div>
+  <div class="meta">${review.status === 'draft' ? 'Draft · not yet reviewed by a curator' : `${escapeHtml(review.status[0].toUpperCase() + review.status.slice(1))}${review.reviewer ? ` by ${escapeHtml(review.reviewer)}` : ''}`}</div>
+</header>
+
+<h2>Images</h2>
+<div class="figures">
+  ${figure(data.originalImage, labels.fragment)}
+  ${figure(data.presentImage, labels.restored)}
+  ${figure(data.pastImage, labels.reconstructed)}
+</div>
+
+<h2>Identification</h2>
+<table>
+  ${idRow(labels.objectClass, 'type')}
+  ${idRow(labels.origin, 'civilization')}
+  ${idRow(labels.period, 'era')}
+  ${idRow('Date Range', 'exactYearRange')}
+  ${idRow('Region', 'region')}
+  ${idRow('Material', 'material')}
+  ${idRow('Repair Method', 'repairMethod')}
+  ${row('Submitted Context', context)}
+</table>
+${hasCurated ? '<p class="meta">† Entered or corrected by a curator; unmarked values are as the model produced them.</p>' : ''}
+
+<h2>Damage Analysis</h2>
+<p>${escapeHtml(analysis.damageAnalysis.description)}</p>
+<table>
+  ${row('Missing Sections', analysis.damageAnalysis.missingSections)}
+  ${(analysis.damageAnalysis.regions ?? []).map(r => row(`${r.type} (${r.severity})`, r.label || 'Unlabelled region')).join('\n  ')}
+</table>
+
+${data.assembly ? `<h2>Reassembly</h2>
+<p>Reassembled from ${data.assembly.fragments.length} separate fragments.</p>
+<table>
+  ${data.assembly.joins.map((j, i) => row(`Fragment ${j.a} ${j.aEdge} / ${j.b} ${j.bEdge}`, `${j.confidence}% · ${data.assembly!.confirmed.includes(i) ? 'joined' : 'proposed only'} · ${j.rationale}`)).join('\n  ')}
+</table>
+
+` : ''}<h2>${escapeHtml(labels.conservation)}</h2>
+<p>${escapeHtml(analysis.modernRestoration.description)}</p>
+
+<h2>${escapeHtml(labels.brief)}</h2>
+<p>${escapeHtml(analysis.pastReconstruction.description)}</p>
+${features.length ? `<table>
+  ${features.map(h => row(h.curated ? `${h.label} †` : h.label, h.detail || 'No detail recorded.')).join('\n  ')}
+</table>` : ''}
+${rejectedCount ? `<p class="meta">${rejectedCount} model-proposed feature${rejectedCount === 1 ? ' was' : 's were'} rejected by a curator and omitted.</p>` : ''}
+
+${analysis.alternatives?.length ? `<h2>Alternative Hypotheses</h2>
+${data.hypothesisAccepted ? '<p class="meta">The identification above was selected by a curator from the model\'s alternatives.</p>' : ''}
+<table>
+  ${analysis.alternatives.map(h => row(`${h.identification.type} (${h.confidence}%)`, `${h.identification.civilization} · ${h.identification.era}. ${h.rationale}`)).join('\n  ')}
+</table>
+
+` : ''}<h2>Assumptions</h2>
+<p>${escapeHtml(analysis.assumptions)}</p>
+
+<h2>Confidence</h2>
+<div class="score">${escapeHtml(overallConfidence(analysis))}%</div>
+${analysis.confidenceBreakdown?.length ? `<p class="meta">${analysis.consistencyRuns ? `Share of ${analysis.consistencyRuns} independent analyses that agreed, averaged over the dimensions below` : 'Mean of the dimension scores below'}; the model's single self-reported score was ${escapeHtml(analysis.confidenceScore)}%.</p>` : ''}
+<p>${escapeHtml(analysis.confidenceExplanation)}</p>
+${analysis.confidenceBreakdown?.length ? `<table>
+  ${analysis.confidenceBreakdown.map(d => row(dimensionLabel(d.dimension, labels), [
+    d.agreement !== undefined ? `${d.agreement}% agreement (self-reported ${d.score}%)` : `${d.score}%`,
+    d.evidence,
+    ...(d.answers ?? []).slice(1).map(a => `Other answer (${a.runs} run${a.runs === 1 ? '' : 's'}): ${a.value}`),
+  ].filter(Boolean).join(' · '))).join('\n  ')}
+</table>` : ''}
+${data.consistency ? `<table>
+  ${row('Fragment Match', `${data.consistency.similarity}% structural similarity over ${data.consistency.coverage}% of the frame · ${data.consistency.passed ? 'consistent with the fragment' : 'flagged: the render departs from the surviving fragment'}`)}
+</table>` : ''}
+
+<h2>Timeline</h2>
+<ol class="timeline">
+  ${analysis.timeline.map((e, i) => `<li><strong>${escapeHtml(e.year)}</strong> - ${escapeHtml(e.event)}${cite(`timeline.${i}`)}${e.note ? `<br><span class="note">Curator note: ${escapeHtml(e.note)}</span>` : ''}</li>`).join('\n  ')}
+</ol>
+
+<h2>Sources</h2>
+${analysis.sources.length
+    ? `<ol class="sources">\n  ${analysis.sources.map(s => `<li>${escapeHtml(s.title)}${s.kind ? ` <span class="meta">· ${escapeHtml(SOURCE_KIND_LABELS[s.kind])}</span>` : ''}<br>${isWebUrl(s.uri) ? `<a href="${escapeHtml(s.uri)}">${escapeHtml(s.uri)}</a>` : escapeHtml(s.uri)}</li>`).join('\n  ')}\n</ol>`
+    : '<p class="meta">No external sources were indexed for this analysis.</p>'}
+${data.referenceMatches?.length ? `
+<h2>Catalogue Matches</h2>
+<p class="meta">Nearest objects in the museum reference catalogue by visual similarity, as offered to the analysis for confirmation.</p>
+<table>
+  ${data.referenceMatches.map(m => row(`${m.title} (${m.similarity}%)`, [m.accession, m.type, m.civilization, m.era, m.material].filter(Boolean).join(' · ') || 'No catalogue details recorded.')).join('\n  ')}
+</table>
+` : ''}
+${review.history.length ? `<h2>Review History</h2>
+<table class="history">
+  ${review.history.map(e => `<tr><th>${escapeHtml(new Date(e.at).toLocaleString())}${e.reviewer ? `<br>${escapeHtml(e.reviewer)}` : ''}</th><td>${escapeHtml(editLabel(e.path))}: <del>${escapeHtml(describeValue(e.before))}</del>${e.replaced ? ` (${escapeHtml(e.replaced)})` : ''} → <ins>${escapeHtml(describeValue(e.after))}</ins></td></tr>`).join('\n  ')}
+</table>
+
+` : ''}<h2>Generation</h2>
+<table class="meta">
+  ${row('Generated', generatedAt.toLocaleString())}
+  ${row('Provider', provenance?.provider ?? 'Unknown')}
+  ${row('Analysis Model', provenance?.models.analysis ?? 'Unknown')}
+  ${row('Image Model', provenance?.models.image ?? 'Unknown')}
+  ${row('Speech Model', provenance?.models.speech ?? 'Unknown')}
+</table>
+</body>
+</html>`;
+};
@@ -0,0 +1,106 @@
+import { ShardAssembly, ShardEdge, ShardJoin, ShardPlacement } from "../types";
+
+// Table geometry for the reassembly workspace. Every fragment photo is a unit square tile, so a join
+// is satisfied when the two named edges face each other one tile apart.
+
+export const TILE_SIZE = 1;
+export const SNAP_DISTANCE = 0.45;
+
+const EDGES: ShardEdge[] = ['top', 'right', 'bottom', 'left'];
+
+// Table-space direction of each edge before rotation: x to the right, z towards the viewer.
+const EDGE_VECTORS: Record<ShardEdge, [number, number]> = {
+  top: [0, -1],
+  right: [1, 0],
+  bottom: [0, 1],
+  left: [-1, 0],
+};
+
+const turns = (rotation: number) => ((Math.round(rotation) % 4) + 4) % 4;
+
+/** Which table direction a fragment's edge faces once the tile is turned. */
+export const rotatedEdge = (edge: ShardEdge, rotation: number): ShardEdge =>
+  EDGES[(EDGES.indexOf(edge) + turns(rotation)) % 4];
+
+export const initialPlacements = (count: number): ShardPlacement[] => {
+  const columns = Math.ceil(Math.sqrt(count));
+  const spacing = TILE_SIZE * 1.6;
+  return Array.from({ length: count }, (_, i) => ({
+    x: ((i % columns) - (columns - 1) / 2) * spacing,
+    z: (Math.floor(i / columns) - (Math.ceil(count / columns) - 1) / 2) * spacing,
+    rotation: 0,
+  }));
+};
+
+/** Where `moving` must sit, and how it must be turned, to close `join` against its partner. */
+export const joinTarget = (join: ShardJoin, moving: number, placements: ShardPlacement[]): ShardPlacement => {
+  const [anchor, anchorEdge, movingEdge] = join.a === moving ? [join.b, join.bEdge, join.aEdge] : [join.a, join.aEdge, join.bEdge];
+  const fixed = placements[anchor];
+  const facing = rotatedEdge(anchorEdge, fixed.rotation);
+  const [dx, dz] = EDGE_VECTORS[facing];
+  // The moving edge has to point back at the anchor.
+  const wanted = (EDGES.indexOf(facing) + 2) % 4;
+  return {
+    x: fixed.x + dx * TILE_SIZE,
+    z: fixed.z + dz * TILE_SIZE,
+    rotation: (wanted - EDGES.indexOf(movingEdge) + 4) % 4,
+  };
+};
+
+/** Closest proposed join the dropped fragment is near enough to snap into, if any. */
+export const findSnap = (moving: number, placements: ShardPlacement[], joins: ShardJoin[]): { joinIndex: number; placement: ShardPlacement } | null => {
+  const current = placements[moving];
+  let best: { joinIndex: number; placement: ShardPlacement } | null = null;
+  let bestDistance = SNAP_DISTANCE;
+  for (let joinIndex = 0; joinIndex < joins.length; joinIndex++) {
+    const join = joins[joinIndex];
+    if (join.a !== moving && join.b !== moving) continue;
+    const placement = joinTarget(join, moving, placements);
+    const distance = Math.hypot(placement.x - current.x, placement.z - current.z);
+    if (distance <= bestDistance) {
+      best = { joinIndex, placement };
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load a fragment photo."));
+    img.src = src;
+  });
+
+/** Renders the agreed arrangement as a single top-down photo for the analysis pipeline. */
+export const composeAssembly = async (assembly: ShardAssembly, tilePixels = 384): Promise<string> => {
+  const images = await Promise.all(assembly.fragments.map(loadImage));
+  const { placements } = assembly;
+  const half = TILE_SIZE / 2;
+  const minX = Math.min(...placements.map(p => p.x)) - half;
+  const maxX = Math.max(...placements.map(p => p.x)) + half;
+  const minZ = Math.min(...placements.map(p => p.z)) - half;
+  const maxZ = Math.max(...placements.map(p => p.z)) + half;
+  const scale = tilePixels / TILE_SIZE;
+  const margin = tilePixels * 0.1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil((maxX - minX) * scale + margin * 2);
+  canvas.height = Math.ceil((maxZ - minZ) * scale + margin * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is unavailable for composing the assembly.");
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  images.forEach((img, i) => {
+    const p = placements[i];
+    ctx.save();
+    ctx.translate(margin + (p.x - minX) * scale, margin + (p.z - minZ) * scale);
+    ctx.rotate(turns(p.rotation) * Math.PI / 2);
+    ctx.drawImage(img, -tilePixels / 2, -tilePixels / 2, tilePixels, tilePixels);
+    ctx.restore();
+  });
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
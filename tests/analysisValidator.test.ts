@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { parseAnalysis, parseChatReply, parseJoins, validateAnalysis } from "../services/analysisValidator";
+import { sampleAnalysis } from "./fixtures";
+
+describe('validateAnalysis', () => {
+  it('accepts a complete analysis without repairs', () => {
+    const result = validateAnalysis(sampleAnalysis());
+    expect(result.errors).toEqual([]);
+    expect(result.repairs).toEqual([]);
+    expect(result.analysis?.identification.civilization).toBe('Roman');
+  });
+
+  it('fails when core content is missing', () => {
+    const raw: any = sampleAnalysis();
+    delete raw.curatorNarrative;
+    raw.identification.type = '';
+    const result = validateAnalysis(raw);
+    expect(result.analysis).toBeNull();
+    expect(result.errors).toEqual(expect.arrayContaining(['curatorNarrative must be a non-empty string', 'identification.type must be a non-empty string']));
+  });
+
+  it('rescales fractional scores but keeps a whole 1 as 1%', () => {
+    const fraction = validateAnalysis({ ...sampleAnalysis(), confidenceScore: 0.85 });
+    expect(fraction.analysis?.confidenceScore).toBe(85);
+    const one = validateAnalysis({ ...sampleAnalysis(), confidenceScore: 1 });
+    expect(one.analysis?.confidenceScore).toBe(1);
+  });
+
+  it('never rescales stored records', () => {
+    const result = validateAnalysis({ ...sampleAnalysis(), confidenceScore: 0.4 }, { stored: true });
+    expect(result.analysis?.confidenceScore).toBe(0);
+  });
+
+  it('parses and clamps numeric strings', () => {
+    const result = validateAnalysis({ ...sampleAnalysis(), confidenceScore: '140%' });
+    expect(result.analysis?.confidenceScore).toBe(100);
+    expect(result.repairs).toEqual(['confidenceScore parsed from string', 'confidenceScore clamped to 0-100']);
+  });
+
+  it('drops non-http(s) sources and re-points citations at the kept ones', () => {
+    const raw = {
+      ...sampleAnalysis(),
+      sources: [
+        { title: 'Bad', uri: 'javascript:alert(1)' },
+        { title: 'Good', uri: 'https://example.org/a' },
+      ],
+      citations: [{ field: 'identification.type', sources: [0, 1] }],
+    };
+    const result = validateAnalysis(raw);
+    expect(result.analysis?.sources).toEqual([{ title: 'Good', uri: 'https://example.org/a' }]);
+    expect(result.analysis?.citations).toEqual([{ field: 'identification.type', sources: [0] }]);
+  });
+
+  it('drops unusable alternatives without failing the analysis', () => {
+    const raw: any = sampleAnalysis();
+    raw.alternatives.push({ identification: {}, confidence: 0.4 });
+    const result = validateAnalysis(raw);
+    expect(result.analysis?.alternatives).toHaveLength(1);
+    expect(result.repairs.some(r => r.startsWith('alternatives[1] dropped'))).toBe(true);
+  });
+
+  it('keeps one breakdown entry per known dimension, in dimension order', () => {
+    const raw = {
+      ...sampleAnalysis(),
+      confidenceBreakdown: [
+        { dimension: 'material', score: 90, evidence: 'Crystalline marble.' },
+        { dimension: 'type', score: 0.6, evidence: 'Head only.' },
+        { dimension: 'material', score: 10, evidence: 'Repeat.' },
+        { dimension: 'colour', score: 50, evidence: 'Unknown.' },
+      ],
+    };
+    const result = validateAnalysis(raw);
+    expect(result.analysis?.confidenceBreakdown?.map(d => [d.dimension, d.score])).toEqual([['type', 60], ['material', 90]]);
+  });
+});
+
+describe('parseAnalysis', () => {
+  it('strips a markdown code fence', () => {
+    const result = parseAnalysis('```json\n' + JSON.stringify(sampleAnalysis()) + '\n```');
+    expect(result.analysis).not.toBeNull();
+  });
+
+  it('reports invalid JSON as a validation error', () => {
+    const result = parseAnalysis('{"identification":');
+    expect(result.analysis).toBeNull();
+    expect(result.errors[0]).toMatch(/^response is not valid JSON/);
+  });
+});
+
+describe('parseJoins', () => {
+  it('drops self-joins, duplicates and unknown edges, strongest first', () => {
+    const text = JSON.stringify({
+      joins: [
+        { a: 0, aEdge: 'right', b: 1, bEdge: 'left', confidence: 40 },
+        { a: 1, aEdge: 'top', b: 0, bEdge: 'bottom', confidence: 90 },
+        { a: 1, aEdge: 'top', b: 1, bEdge: 'bottom', confidence: 90 },
+        { a: 1, aEdge: 'Bottom', b: 2, bEdge: 'TOP', confidence: 0.7 },
+        { a: 0, aEdge: 'middle', b: 2, bEdge: 'top', confidence: 50 },
+      ],
+    });
+    const { joins, errors } = parseJoins(text, 3);
+    expect(errors).toEqual([]);
+    expect(joins.map(j => [j.a, j.aEdge, j.b, j.bEdge, j.confidence])).toEqual([
+      [1, 'bottom', 2, 'top', 70],
+      [0, 'right', 1, 'left', 40],
+    ]);
+  });
+});
+
+describe('parseChatReply', () => {
+  it('drops refinements of fields that are not allowed', () => {
+    const text = JSON.stringify({
+      answer: 'It is marble.',
+      refinements: [{ field: 'identification.material', value: 'Parian marble' }, { field: 'sources', value: 'x' }],
+    });
+    const result = parseChatReply(text, ['identification.material']);
+    expect(result.reply?.text).toBe('It is marble.');
+    expect(result.reply?.refinements).toHaveLength(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { citationNumbers, classifySource, groundAnalysis, isWebUrl, withoutCitationsFor } from "../services/citations";
+import { sampleAnalysis } from "./fixtures";
+
+describe('classifySource', () => {
+  it('recognises museums, academic, encyclopedia and blog pages', () => {
+    expect(classifySource({ title: 'Collection', uri: 'https://www.britishmuseum.org/collection/object/1' })).toBe('museum');
+    expect(classifySource({ title: 'Article', uri: 'https://www.jstor.org/stable/1' })).toBe('academic');
+    expect(classifySource({ title: 'wikipedia.org', uri: 'https://redirect.example/abc' })).toBe('encyclopedia');
+    expect(classifySource({ title: 'My finds', uri: 'https://someone.wordpress.com/post' })).toBe('blog');
+    expect(classifySource({ title: 'Shop', uri: 'https://example.com' })).toBe('other');
+  });
+});
+
+describe('isWebUrl', () => {
+  it('only accepts http(s) addresses', () => {
+    expect(isWebUrl('https://example.org')).toBe(true);
+    expect(isWebUrl(' HTTP://example.org')).toBe(true);
+    expect(isWebUrl('javascript:alert(1)')).toBe(false);
+    expect(isWebUrl('data:text/html,hi')).toBe(false);
+  });
+});
+
+describe('groundAnalysis', () => {
+  const analysis = { ...sampleAnalysis(), sources: [] };
+  const chunks = [
+    { title: 'A blog', uri: 'https://someone.blogspot.com/roman' },
+    { title: 'Met', uri: 'https://www.metmuseum.org/art/collection/1' },
+    null,
+    { title: 'Met again', uri: 'https://metmuseum.org/art/collection/1/' },
+  ];
+
+  it('de-duplicates sources and ranks museums above blogs', () => {
+    const grounded = groundAnalysis(analysis, chunks, []);
+    expect(grounded.sources.map(s => [s.title, s.kind])).toEqual([['Met', 'museum'], ['A blog', 'blog']]);
+    expect(grounded.citations).toBeUndefined();
+  });
+
+  it('maps supports onto the fields whose values they contain, using ranked numbers', () => {
+    const grounded = groundAnalysis(analysis, chunks, [
+      { text: '"type": "Portrait head"', chunks: [0, 3] },
+      { text: 'Roman', chunks: [1] },
+      { text: '"event": "Carved in a workshop near Rome."', chunks: [2] },
+    ]);
+    expect(grounded.citations).toEqual([{ field: 'identification.type', sources: [0, 1] }]);
+    expect(citationNumbers(grounded, 'identification.type')).toEqual([1, 2]);
+    expect(citationNumbers(grounded, 'identification.civilization')).toEqual([]);
+    expect(citationNumbers(analysis, 'identification.type')).toBeNull();
+  });
+});
+
+describe('withoutCitationsFor', () => {
+  it('drops exact fields and everything beneath a prefix', () => {
+    const citations = [
+      { field: 'identification.type', sources: [0] },
+      { field: 'confidenceExplanation', sources: [1] },
+      { field: 'timeline.0', sources: [0] },
+    ];
+    expect(withoutCitationsFor(citations, ['identification', 'confidenceExplanation'])).toEqual([{ field: 'timeline.0', sources: [0] }]);
+    expect(withoutCitationsFor(undefined, ['identification'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseNativeJson, toCsv, toNativeJson } from "../services/collectionExport";
+import { CaseRecord } from "../types";
+import { sampleData } from "./fixtures";
+
+const record = (overrides: Partial<CaseRecord> = {}): CaseRecord => ({
+  id: 'case-1',
+  createdAt: Date.UTC(2025, 0, 2),
+  context: 'Found near Ostia, "topsoil"',
+  data: sampleData(),
+  ...overrides,
+});
+
+describe('native JSON', () => {
+  it('round-trips records unchanged', () => {
+    const records = [record(), record({ id: 'case-2' })];
+    expect(parseNativeJson(toNativeJson(records))).toEqual(records);
+  });
+
+  it('keeps a stored score of 1 as 1', () => {
+    const low = record();
+    low.data.analysis!.confidenceScore = 1;
+    expect(parseNativeJson(toNativeJson([low]))[0].data.analysis?.confidenceScore).toBe(1);
+  });
+
+  it('drops sources that are not http(s) links', () => {
+    const crafted = record();
+    crafted.data.analysis!.sources = [{ title: 'x', uri: 'javascript:alert(document.domain)' }];
+    expect(parseNativeJson(toNativeJson([crafted]))[0].data.analysis?.sources).toEqual([]);
+  });
+
+  it('round-trips the optional record fields', () => {
+    const full = record();
+    full.data = {
+      ...full.data,
+      views: [{ role: 'front', image: 'data:image/png;base64,CCCC' }],
+      chat: [{ role: 'model', text: 'Likely Julio-Claudian.', at: 5, sources: [{ title: 'Met', uri: 'https://example.org/met' }] }],
+      review: { status: 'reviewed', reviewer: 'A. Curator', history: [{ at: 6, path: 'analysis.identification.era', before: 'a', after: 'b', replaced: 'ai' }], curated: ['analysis.identification.era'] },
+      pastImageVersions: [{ image: 'data:image/png;base64,AAAA', at: 7 }, { image: 'data:image/png;base64,DDDD', at: 8, instruction: 'Add a nose' }],
+      pastImageVersion: 0,
+      referenceMatches: [{ id: 'ref-1', image: 'https://example.org/ref.png', similarity: 81, title: 'Bust', era: 'Augustan' }],
+    };
+    full.data.analysis!.citations = [{ field: 'identification.era', sources: [0] }];
+    full.data.analysis!.consistencyRuns = 3;
+    expect(parseNativeJson(toNativeJson([full]))).toEqual([full]);
+  });
+
+  it('removes malformed optional fields instead of importing them', () => {
+    const file = JSON.parse(toNativeJson([record()]));
+    const data = file.records[0].data;
+    Object.assign(data.analysis, { citations: 'oops', confidenceBreakdown: 'garbage', consistencyRuns: 'x' });
+    Object.assign(data, {
+      views: [{ role: 'front', image: 'javascript:alert(1)' }, 'x'],
+      referenceMatches: 'many',
+      review: { status: 'published', history: [] },
+      pastImageVersions: [{ image: 42, at: 1 }],
+      pastImageVersion: 3,
+      chat: [{ role: 'system', text: 'hi', at: 1 }, { role: 'model', text: 'ok', at: 2, sources: [{ title: 'x', uri: 'javascript:void(0)' }] }],
+      pastImage: 'javascript:alert(1)',
+      unknownField: { any: 'thing' },
+    });
+    const [imported] = parseNativeJson(JSON.stringify(file));
+    expect(imported.data.analysis).not.toHaveProperty('citations');
+    expect(imported.data.analysis).not.toHaveProperty('confidenceBreakdown');
+    expect(imported.data.analysis).not.toHaveProperty('consistencyRuns');
+    expect(imported.data.chat).toEqual([{ role: 'model', text: 'ok', at: 2, sources: [] }]);
+    expect(imported.data.pastImage).toBeNull();
+    for (const key of ['views', 'referenceMatches', 'review', 'pastImageVersions', 'pastImageVersion', 'unknownField']) {
+      expect(imported.data).not.toHaveProperty(key);
+    }
+  });
+
+  it('rejects foreign files, newer versions and invalid analyses', () => {
+    expect(() => parseNativeJson('not json')).toThrow('not valid JSON');
+    expect(() => parseNativeJson(JSON.stringify({ records: [] }))).toThrow('not an artifact.ai export');
+    const newer = JSON.parse(toNativeJson([]));
+    newer.version = 99;
+    expect(() => parseNativeJson(JSON.stringify(newer))).toThrow('newer than this app supports');
+    const broken = record();
+    broken.data.analysis!.curatorNarrative = '';
+    expect(() => parseNativeJson(toNativeJson([broken]))).toThrow('record 0 has an invalid analysis');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes one quoted row per analysed record', () => {
+    const lines = toCsv([record(), record({ id: 'empty', data: { ...sampleData(), analysis: null } })]).trimEnd().split('\r\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1].startsWith('case-1,2025-01-02T00:00:00.000Z,old,Portrait head,Roman,')).toBe(true);
+    expect(lines[1]).toContain('"Found near Ostia, ""topsoil"""');
+  });
+});
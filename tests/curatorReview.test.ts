@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { addHotspot, annotateTimeline, editIdentification, recordAcceptance, reviewOf, setReviewStatus, sourceOf, toggleHotspotRejected } from "../services/curatorReview";
+import { acceptHypothesis } from "../services/hypotheses";
+import { sampleData } from "./fixtures";
+
+describe('curator review', () => {
+  it('records an edit with the replaced value and marks the field curated', () => {
+    const before = sampleData();
+    const after = editIdentification(before, 'era', 'Augustan', 'A. Curator');
+    expect(after.analysis?.identification.era).toBe('Augustan');
+    expect(before.analysis?.identification.era).toBe('Early Imperial');
+    expect(sourceOf(after, 'analysis.identification.era')).toBe('curator');
+    expect(reviewOf(after).history).toEqual([
+      expect.objectContaining({ path: 'analysis.identification.era', before: 'Early Imperial', after: 'Augustan', replaced: 'ai', reviewer: 'A. Curator' }),
+    ]);
+  });
+
+  it('ignores edits that do not change the value', () => {
+    const data = sampleData();
+    const after = editIdentification(data, 'era', 'Early Imperial');
+    expect(after).toEqual(data);
+    expect(after.review).toBeUndefined();
+  });
+
+  it('mirrors civilization onto manufacturer for modern objects', () => {
+    const data = sampleData();
+    data.analysis!.mode = 'new';
+    const after = editIdentification(data, 'civilization', 'Wedgwood');
+    expect(after.analysis?.identification.manufacturer).toBe('Wedgwood');
+  });
+
+  it('clears an empty timeline note', () => {
+    const noted = annotateTimeline(sampleData(), 1, '  Found with coins. ');
+    expect(noted.analysis?.timeline[1].note).toBe('Found with coins.');
+    expect(annotateTimeline(noted, 1, ' ').analysis?.timeline[1].note).toBeUndefined();
+  });
+
+  it('adds, rejects and restores hotspots', () => {
+    const added = addHotspot(sampleData(), { x: 120, y: 33.333, label: 'Ear', detail: '' });
+    const spot = added.analysis!.pastReconstruction.hotspots[1];
+    expect(spot).toEqual({ x: 100, y: 33.3, label: 'Ear', detail: '', curated: true });
+    const rejected = toggleHotspotRejected(added, 1);
+    expect(rejected.analysis!.pastReconstruction.hotspots[1].rejected).toBe(true);
+    expect(toggleHotspotRejected(rejected, 1).analysis!.pastReconstruction.hotspots[1].rejected).toBeUndefined();
+  });
+
+  it('sends an approved record back to reviewed on a later edit', () => {
+    const approved = setReviewStatus(sampleData(), 'approved', 'A. Curator');
+    expect(reviewOf(approved).status).toBe('approved');
+    const edited = editIdentification(approved, 'material', 'Luna marble');
+    expect(reviewOf(edited).status).toBe('reviewed');
+    expect(reviewOf(edited).history.at(-1)).toEqual(expect.objectContaining({ path: 'review.status', before: 'approved', after: 'reviewed' }));
+  });
+
+  it('moves curator marks with their values when an alternative is accepted', () => {
+    const edited = editIdentification(sampleData(), 'era', 'Augustan');
+    const accepted = recordAcceptance(edited, acceptHypothesis(edited, 0), 0);
+    expect(accepted.analysis?.identification.type).toBe('Funerary portrait');
+    expect(sourceOf(accepted, 'analysis.alternatives.0.identification.era')).toBe('curator');
+    expect(sourceOf(accepted, 'analysis.identification.era')).toBe('ai');
+  });
+});
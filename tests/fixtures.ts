@@ -0,0 +1,49 @@
+import { ArtifactAnalysis, ReconstructionData } from "../types";
+
+// Small, fully valid records shared by the tests. Each call returns a fresh copy so tests can mutate freely.
+
+export const sampleAnalysis = (): ArtifactAnalysis => ({
+  mode: 'old',
+  identification: {
+    type: 'Portrait head',
+    era: 'Early Imperial',
+    civilization: 'Roman',
+    region: 'Latium',
+    material: 'Marble',
+    exactYearRange: '27 BC - AD 14',
+  },
+  damageAnalysis: { description: 'Nose and chin lost.', missingSections: 'Nose, chin', regions: [] },
+  pastReconstruction: {
+    description: 'A veiled portrait of a priestess with a centre-parted hairstyle.',
+    visualPrompt: 'Complete marble portrait head, studio lighting.',
+    hotspots: [{ x: 40, y: 30, label: 'Veil', detail: 'Edge of the veil over the crown.' }],
+  },
+  modernRestoration: { description: 'Consolidate and fill the break.', visualPrompt: 'Restored head on a plinth.' },
+  timeline: [
+    { year: '10 BC', event: 'Carved in a workshop near Rome.' },
+    { year: '1890', event: 'Excavated at a villa site.' },
+  ],
+  confidenceScore: 72,
+  confidenceExplanation: 'Hairstyle and veil match dated Augustan portraits.',
+  assumptions: 'Veil assumed to continue over the back.',
+  curatorNarrative: 'A marble head from the age of Augustus.',
+  sources: [
+    { title: 'Portrait collection', uri: 'https://www.metmuseum.org/art/collection/1', kind: 'museum' },
+    { title: 'Roman portraiture', uri: 'https://en.wikipedia.org/wiki/Roman_portraiture', kind: 'encyclopedia' },
+  ],
+  alternatives: [{
+    identification: { type: 'Funerary portrait', era: 'Late Republic', civilization: 'Roman', region: 'Latium', material: 'Limestone', exactYearRange: '60-30 BC' },
+    confidence: 20,
+    rationale: 'Plainer carving could point to a funerary relief.',
+    description: 'A freedwoman depicted on a tomb relief.',
+    visualPrompt: 'Funerary relief portrait.',
+    hotspots: [],
+  }],
+});
+
+export const sampleData = (): ReconstructionData => ({
+  analysis: sampleAnalysis(),
+  pastImage: 'data:image/png;base64,AAAA',
+  presentImage: null,
+  originalImage: 'data:image/png;base64,BBBB',
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { acceptHypothesis, hasVoted, hypothesisEntries, voteForHypothesis } from "../services/hypotheses";
+import { sampleData } from "./fixtures";
+
+describe('voteForHypothesis', () => {
+  it('counts one vote per voter', () => {
+    const once = voteForHypothesis(sampleData(), 0, 'a. curator');
+    expect(hasVoted(once, 'a. curator')).toBe(true);
+    expect(voteForHypothesis(once, -1, 'a. curator')).toBe(once);
+    const twice = voteForHypothesis(once, -1, 'b. curator');
+    expect(hypothesisEntries(twice).map(e => e.votes)).toEqual([1, 1]);
+  });
+});
+
+describe('acceptHypothesis', () => {
+  it('swaps the alternative into the lead and drops citations of the replaced text', () => {
+    const data = sampleData();
+    data.analysis!.citations = [
+      { field: 'identification.type', sources: [0] },
+      { field: 'confidenceExplanation', sources: [0] },
+      { field: 'pastReconstruction.description', sources: [1] },
+      { field: 'timeline.0', sources: [1] },
+    ];
+    const accepted = acceptHypothesis(data, 0);
+    expect(accepted.analysis?.identification.type).toBe('Funerary portrait');
+    expect(accepted.analysis?.alternatives?.[0].identification.type).toBe('Portrait head');
+    expect(accepted.analysis?.citations).toEqual([{ field: 'timeline.0', sources: [1] }]);
+    expect(accepted.hypothesisAccepted).toBe(true);
+  });
+
+  it('keeps the description citation when the alternative has no description of its own', () => {
+    const data = sampleData();
+    data.analysis!.alternatives![0].description = '';
+    data.analysis!.citations = [{ field: 'pastReconstruction.description', sources: [1] }];
+    expect(acceptHypothesis(data, 0).analysis?.citations).toEqual([{ field: 'pastReconstruction.description', sources: [1] }]);
+  });
+});
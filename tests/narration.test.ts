@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { SPEECH_SAMPLE_RATE, activeSentence, formatTime, pcmToWav, sentenceStarts, transcriptSentences } from "../services/narration";
+
+describe('pcmToWav', () => {
+  it('wraps the PCM in a mono 16-bit RIFF header', async () => {
+    const pcm = new Uint8Array([1, 2, 3, 4, 5, 6]);
+    const wav = pcmToWav(btoa(String.fromCharCode(...pcm)));
+    expect(wav.type).toBe('audio/wav');
+    const view = new DataView(await wav.arrayBuffer());
+    const tag = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+    expect(view.byteLength).toBe(44 + pcm.length);
+    expect([tag(0), tag(8), tag(12), tag(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(36 + pcm.length);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(SPEECH_SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(pcm.length);
+    expect(view.getUint8(44)).toBe(1);
+  });
+});
+
+describe('transcript timing', () => {
+  it('splits sentences and keeps closing punctuation and quotes', () => {
+    expect(transcriptSentences('It was carved. "Who made it?" Nobody knows!  ')).toEqual(['It was carved.', '"Who made it?"', 'Nobody knows!']);
+    expect(transcriptSentences('')).toEqual([]);
+  });
+
+  it('gives each sentence time in proportion to its length', () => {
+    const starts = sentenceStarts(['aaaa', 'bb', 'cc']);
+    expect(starts).toEqual([0, 0.5, 0.75]);
+    expect(activeSentence(starts, 0.49)).toBe(0);
+    expect(activeSentence(starts, 0.5)).toBe(1);
+    expect(activeSentence(starts, 1)).toBe(2);
+  });
+
+  it('formats seconds as m:ss', () => {
+    expect(formatTime(0)).toBe('0:00');
+    expect(formatTime(75.9)).toBe('1:15');
+    expect(formatTime(NaN)).toBe('0:00');
+  });
+});
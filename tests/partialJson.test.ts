@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { parsePartialJson, stripCodeFence } from "../services/partialJson";
+
+describe('parsePartialJson', () => {
+  it('returns undefined until anything parses', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('```json\n')).toBeUndefined();
+  });
+
+  it('closes an open string, array and object', () => {
+    expect(parsePartialJson('{"identification": {"type": "Port')).toEqual({ identification: { type: 'Port' } });
+    expect(parsePartialJson('{"timeline": [{"year": "10 BC"}, {"ye')).toEqual({ timeline: [{ year: '10 BC' }, {}] });
+  });
+
+  it('cuts back past a dangling key or separator', () => {
+    expect(parsePartialJson('{"a": 1, "b":')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1,')).toEqual({ a: 1 });
+  });
+
+  it('does not let a trailing escape swallow the closing quote', () => {
+    expect(parsePartialJson('{"a": "line\\')).toEqual({ a: 'line' });
+  });
+
+  it('parses a complete document unchanged', () => {
+    const value = { a: [1, { b: 'c' }], d: null };
+    expect(parsePartialJson(JSON.stringify(value))).toEqual(value);
+  });
+});
+
+describe('stripCodeFence', () => {
+  it('removes an opening and closing fence, or only the opening one mid-stream', () => {
+    expect(stripCodeFence('```json\n{"a": 1}\n```\n')).toBe('{"a": 1}');
+    expect(stripCodeFence('```\n{"a": ')).toBe('{"a":');
+    expect(stripCodeFence(' {"a": 1} ')).toBe('{"a": 1}');
+  });
+});
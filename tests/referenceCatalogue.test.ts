@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseCatalogueMetadata, parseCsv } from "../services/referenceCatalogue";
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, newlines and CRLF', () => {
+    expect(parseCsv('a,b\r\n"x, ""y""","multi\nline"\n\n')).toEqual([['a', 'b'], ['x, "y"', 'multi\nline']]);
+  });
+
+  it('keeps a last row without a trailing newline and skips blank rows', () => {
+    expect(parseCsv('a\n,\n1')).toEqual([['a'], ['1']]);
+  });
+});
+
+describe('parseCatalogueMetadata', () => {
+  it('maps museum column names onto catalogue fields', () => {
+    const csv = 'Object Name,Accession_Number,Culture,Date,Medium,Image File\nKrater,1990.12,Attic,c. 450 BC,Terracotta,krater.jpg\n';
+    expect(parseCatalogueMetadata(csv, 'catalogue.CSV')).toEqual([{
+      title: 'Krater',
+      accession: '1990.12',
+      type: undefined,
+      civilization: 'Attic',
+      era: 'c. 450 BC',
+      material: 'Terracotta',
+      region: undefined,
+      notes: undefined,
+      image: 'krater.jpg',
+    }]);
+  });
+
+  it('reads a JSON list or an object with an objects list, skipping empty rows', () => {
+    const rows = parseCatalogueMetadata(JSON.stringify({ objects: [{ name: 'Lamp', period: 'Roman', url: 'https://example.org/lamp.png' }, {}, 'x'] }), 'c.json');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ title: 'Lamp', era: 'Roman', image: 'https://example.org/lamp.png' });
+    expect(parseCatalogueMetadata('[{"accession": "A1"}]', 'c.json')[0].title).toBe('A1');
+  });
+
+  it('rejects JSON that is not a catalogue', () => {
+    expect(() => parseCatalogueMetadata('{', 'c.json')).toThrow('c.json is not valid JSON.');
+    expect(() => parseCatalogueMetadata('{"a": 1}', 'c.json')).toThrow('must contain a list');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { findSnap, initialPlacements, joinTarget, rotatedEdge } from "../services/shardAssembly";
+import { ShardJoin } from "../types";
+
+const join: ShardJoin = { a: 0, aEdge: 'right', b: 1, bEdge: 'left', confidence: 80, rationale: '' };
+
+describe('shard assembly geometry', () => {
+  it('turns edges clockwise a quarter per rotation', () => {
+    expect(rotatedEdge('top', 1)).toBe('right');
+    expect(rotatedEdge('left', 2)).toBe('right');
+    expect(rotatedEdge('top', -1)).toBe('left');
+  });
+
+  it('lays fragments out on a centred grid', () => {
+    const placements = initialPlacements(4);
+    expect(placements).toHaveLength(4);
+    expect(placements.reduce((sum, p) => sum + p.x, 0)).toBeCloseTo(0);
+    expect(placements.reduce((sum, p) => sum + p.z, 0)).toBeCloseTo(0);
+  });
+
+  it('places the moving fragment one tile beyond the anchor edge, turned to face it', () => {
+    const placements = [{ x: 0, z: 0, rotation: 0 }, { x: 5, z: 5, rotation: 0 }];
+    expect(joinTarget(join, 1, placements)).toEqual({ x: 1, z: 0, rotation: 0 });
+    // Anchor turned a quarter: its right edge now faces down, so the partner sits below with its left edge up.
+    expect(joinTarget(join, 1, [{ x: 0, z: 0, rotation: 1 }, placements[1]])).toEqual({ x: 0, z: 1, rotation: 1 });
+  });
+
+  it('snaps only within the snap distance', () => {
+    const near = [{ x: 0, z: 0, rotation: 0 }, { x: 1.3, z: 0.1, rotation: 0 }];
+    expect(findSnap(1, near, [join])).toEqual({ joinIndex: 0, placement: { x: 1, z: 0, rotation: 0 } });
+    const far = [{ x: 0, z: 0, rotation: 0 }, { x: 2, z: 0, rotation: 0 }];
+    expect(findSnap(1, far, [join])).toBeNull();
+  });
+});
@@ -4,30 +4,109 @@ export interface Hotspot {
   y: number;
   label: string;
   detail: string;
+  /** Index into ReconstructionData.views; absent means the primary view. */
+  view?: number;
+  /** Placed or moved by a curator rather than the model. */
+  curated?: boolean;
+  /** Kept for the record but hidden from the dashboard and reports. */
+  rejected?: boolean;
+}
+
+export type ViewRole = 'front' | 'back' | 'profile' | 'break' | 'detail';
+
+export interface ArtifactView {
+  role: ViewRole;
+  /** Data URL of the photo. */
+  image: string;
+}
+
+export type DamageType = 'fracture' | 'erosion' | 'loss' | 'discoloration';
+
+export type DamageSeverity = 'minor' | 'moderate' | 'severe';
+
+export interface DamagePoint {
+  x: number;
+  y: number;
+}
+
+// Polygon in the same 0-100 image space as Hotspot; boxes are stored as four corners.
+export interface DamageRegion {
+  type: DamageType;
+  severity: DamageSeverity;
+  label: string;
+  points: DamagePoint[];
 }
 
 export interface TimelineEvent {
   year: string;
   event: string;
+  /** Curator annotation; the model never writes this. */
+  note?: string;
 }
 
+export type SourceKind = 'museum' | 'academic' | 'encyclopedia' | 'blog' | 'other';
+
 export interface GroundingSource {
   title: string;
   uri: string;
+  /** Absent on sources collected before they were classified. */
+  kind?: SourceKind;
+}
+
+/** Sources backing one claim of the analysis. */
+export interface Citation {
+  /** Dotted path into ArtifactAnalysis, e.g. "identification.era" or "timeline.2". */
+  field: string;
+  /** Indices into ArtifactAnalysis.sources. */
+  sources: number[];
+}
+
+export type ArtifactMode = 'old' | 'new';
+
+export interface ArtifactIdentification {
+  type: string;
+  era: string;
+  civilization: string;
+  region: string;
+  material: string;
+  exactYearRange: string;
+  // Modern-object mode only; era/civilization mirror productionDecade/manufacturer there.
+  manufacturer?: string;
+  productionDecade?: string;
+  repairMethod?: string;
+}
+
+/** An alternative reading of the object, ranked below the leading identification. */
+export interface Hypothesis {
+  identification: ArtifactIdentification;
+  /** 0-100. */
+  confidence: number;
+  rationale: string;
+  description: string;
+  visualPrompt: string;
+  hotspots: Hotspot[];
+}
+
+export type ConfidenceDimension = 'type' | 'civilization' | 'dating' | 'material' | 'reconstruction';
+
+export interface DimensionConfidence {
+  dimension: ConfidenceDimension;
+  /** 0-100, as the model reported it. */
+  score: number;
+  evidence: string;
+  /** 0-100 share of self-consistency runs that gave the same answer; absent for a single run. */
+  agreement?: number;
+  /** Distinct answers across the self-consistency runs, most frequent first. */
+  answers?: { value: string; runs: number }[];
 }
 
 export interface ArtifactAnalysis {
-  identification: {
-    type: string;
-    era: string;
-    civilization: string;
-    region: string;
-    material: string;
-    exactYearRange: string;
-  };
+  mode?: ArtifactMode;
+  identification: ArtifactIdentification;
   damageAnalysis: {
     description: string;
     missingSections: string;
+    regions?: DamageRegion[];
   };
   pastReconstruction: {
     description: string;
@@ -41,17 +120,247 @@ export interface ArtifactAnalysis {
   timeline: TimelineEvent[];
   confidenceScore: number;
   confidenceExplanation: string;
+  /** Per-dimension scores; absent on analyses made before the model was asked for them. */
+  confidenceBreakdown?: DimensionConfidence[];
+  /** Number of independent analyses compared when self-consistency was on. */
+  consistencyRuns?: number;
   assumptions: string;
   curatorNarrative: string;
+  /** Strongest kind of source first. */
   sources: GroundingSource[];
+  /** Absent when the backend reported no per-claim grounding, in which case no claim is marked unverified. */
+  citations?: Citation[];
+  /** Other plausible identifications, strongest first. */
+  alternatives?: Hypothesis[];
+}
+
+/** What has arrived of an analysis that is still streaming; every field may be missing or incomplete. */
+export interface AnalysisDraft {
+  identification: Partial<ArtifactIdentification>;
+  timeline: TimelineEvent[];
+  description?: string;
+  curatorNarrative?: string;
 }
 
 export type AppStatus = 'idle' | 'analyzing' | 'generating' | 'complete' | 'error';
 
+export interface GenerationProvenance {
+  provider: string;
+  models: { analysis: string; image: string; speech: string };
+  generatedAt: number;
+}
+
+export type ShardEdge = 'top' | 'right' | 'bottom' | 'left';
+
+/** A proposed join between two fragment photos; each edge is named in that photo's own frame. */
+export interface ShardJoin {
+  a: number;
+  aEdge: ShardEdge;
+  b: number;
+  bEdge: ShardEdge;
+  /** 0-100. */
+  confidence: number;
+  rationale: string;
+}
+
+// Position on the assembly table in tile units; rotation is in quarter turns clockwise.
+export interface ShardPlacement {
+  x: number;
+  z: number;
+  rotation: number;
+}
+
+export interface ShardAssembly {
+  /** Data URLs of the separate fragment photos, in upload order. */
+  fragments: string[];
+  joins: ShardJoin[];
+  /** One per fragment, as the user left them. */
+  placements: ShardPlacement[];
+  /** Indices into joins that the user snapped together. */
+  confirmed: number[];
+}
+
+export type GeneratedAsset = 'pastImage' | 'presentImage' | 'audioBlob';
+
+/** Render and curator votes for one entry of ArtifactAnalysis.alternatives, kept at the same index. */
+export interface HypothesisVariant {
+  image: string | null;
+  error?: string;
+  votes: number;
+}
+
+/** An analysis change proposed in chat; it only reaches the record once the user applies it. */
+export interface ChatRefinement {
+  /** One of REFINABLE_FIELDS, as a dotted path into ArtifactAnalysis, e.g. "identification.era". */
+  field: string;
+  value: string;
+  reason: string;
+  applied?: boolean;
+}
+
+/** What the model returns for one follow-up question. */
+export interface ChatReply {
+  text: string;
+  /** Pages found by search while answering; sources already on the analysis are cited as [n]. */
+  sources: GroundingSource[];
+  refinements: ChatRefinement[];
+  /** Revised visualPrompt when the question calls for a different reconstruction. */
+  renderPrompt?: string;
+}
+
+export interface ChatMessage extends Partial<ChatReply> {
+  role: 'user' | 'model';
+  text: string;
+  at: number;
+  /** Set once renderPrompt has been sent to the image model. */
+  rendered?: boolean;
+}
+
+export type ReviewStatus = 'draft' | 'reviewed' | 'approved';
+
+export type ValueSource = 'ai' | 'curator';
+
+/** One curator change, kept so the record can be diffed against what the model produced. */
+export interface ReviewEdit {
+  at: number;
+  /** Dotted path into ReconstructionData, e.g. "analysis.identification.era" or "review.status". */
+  path: string;
+  before: unknown;
+  after: unknown;
+  /** Who produced `before`; absent when the edit added a value or changed the review status. */
+  replaced?: ValueSource;
+  reviewer?: string;
+}
+
+export interface CuratorReview {
+  status: ReviewStatus;
+  /** Whoever last moved the record to reviewed or approved. */
+  reviewer?: string;
+  /** Oldest first. */
+  history: ReviewEdit[];
+  /** Paths whose current value was entered by a curator; everything else is as the model produced it. */
+  curated: string[];
+}
+
+/** How closely the reconstruction render kept what survives of the fragment. */
+export interface ConsistencyCheck {
+  /** 0-100 structural similarity over the fragment's intact area. */
+  similarity: number;
+  /** 0-100 share of the frame that could be compared. */
+  coverage: number;
+  passed: boolean;
+  /** Renders tried before this one was kept. */
+  attempts: number;
+}
+
+/** Who a narrative is written for; 'tour' is the analysis' own curatorNarrative. */
+export type NarrativeAudience = 'tour' | 'children' | 'general' | 'specialist' | 'audioDescription';
+
+/** How the current narration was produced; `text` is what was actually spoken, after any translation. */
+export interface Narration {
+  voice: string;
+  language: string;
+  text: string;
+  /** Absent for the tour narrative. */
+  audience?: NarrativeAudience;
+}
+
+/** One state of the reconstruction render; region edits add a version instead of overwriting. */
+export interface ImageVersion {
+  image: string;
+  at: number;
+  /** Absent for a full render. */
+  instruction?: string;
+  /** PNG data URL, white where the region was regenerated. */
+  mask?: string;
+}
+
 export interface ReconstructionData {
   analysis: ArtifactAnalysis | null;
   pastImage: string | null;
   presentImage: string | null;
   originalImage: string | null;
   audioBlob?: string | null;
+  /** Absent for narrations made before voices and languages could be chosen: Kore, in English. */
+  narration?: Narration;
+  /** Retellings of the analysis for other audiences, written on demand. */
+  narratives?: Partial<Record<Exclude<NarrativeAudience, 'tour'>, string>>;
+  /** Every photo sent for analysis, in order; views[0] is the originalImage. */
+  views?: ArtifactView[];
+  provenance?: GenerationProvenance;
+  /** Why a generated asset is missing; the analysis and other assets are kept regardless. */
+  assetErrors?: Partial<Record<GeneratedAsset, string>>;
+  /** Seed used for the latest render of each image, when one was chosen explicitly. */
+  assetSeeds?: Partial<Record<'pastImage' | 'presentImage', number>>;
+  variants?: HypothesisVariant[];
+  /** Votes for the leading identification; alternatives keep theirs on `variants`. */
+  primaryVotes?: number;
+  /** Everyone who has voted on this case's hypotheses; each voter gets one vote. */
+  voters?: string[];
+  /** Set once a curator has promoted an alternative to the leading identification. */
+  hypothesisAccepted?: boolean;
+  /** Present when the object was reassembled from several separate fragments. */
+  assembly?: ShardAssembly;
+  /** Absent until a curator first touches the record, which then reads as an unreviewed draft. */
+  review?: CuratorReview;
+  /** Follow-up questions about this object, oldest first. */
+  chat?: ChatMessage[];
+  /** Every state of pastImage since the first region edit, oldest first. */
+  pastImageVersions?: ImageVersion[];
+  /** Index into pastImageVersions of the version currently shown as pastImage. */
+  pastImageVersion?: number;
+  /** Fragment comparison for the current pastImage; absent when it could not be measured. */
+  consistency?: ConsistencyCheck;
+  /** Nearest objects in the local reference catalogue, closest first, as sent to the analysis. */
+  referenceMatches?: ReferenceMatch[];
+}
+
+/** Descriptive fields of a catalogued object; everything but the title is optional in imports. */
+export interface ReferenceMetadata {
+  title: string;
+  accession?: string;
+  type?: string;
+  civilization?: string;
+  era?: string;
+  material?: string;
+  region?: string;
+  notes?: string;
+}
+
+/** An identified object from the museum's own catalogue. */
+export interface ReferenceObject extends ReferenceMetadata {
+  id: string;
+  /** Downscaled data URL of the catalogue photograph. */
+  image: string;
+  embedding: number[];
+  /** Descriptor version the embedding was computed with; stale ones are recomputed on match. */
+  embeddingVersion: number;
+  importedAt: number;
+}
+
+export interface ReferenceMatch extends ReferenceMetadata {
+  id: string;
+  image: string;
+  /** 0-100 cosine similarity between the fragment and catalogue embeddings. */
+  similarity: number;
+}
+
+export interface CaseRecord {
+  id: string;
+  createdAt: number;
+  context: string;
+  data: ReconstructionData;
+}
+
+export type BatchItemStatus = 'queued' | 'analyzing' | 'generating' | 'complete' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  views: ArtifactView[];
+  status: BatchItemStatus;
+  /** 0-100, advanced at each pipeline stage. */
+  progress: number;
+  error?: string;
+  record?: CaseRecord;
 }